@@ -0,0 +1,99 @@
+import fs from 'fs';
+import http from 'http';
+
+// Stand-in OTLP/HTTP collector for local development. Accepts JSON trace
+// exports on /v1/traces and prints one line per span, so the OTLP path can be
+// checked without a real tracing backend. COLLECTOR_OUTPUT appends every span
+// as a JSON line for scripts to inspect.
+const PORT = Number(process.env.COLLECTOR_PORT) || 4318;
+const OUTPUT = process.env.COLLECTOR_OUTPUT;
+const VERBOSE = process.env.COLLECTOR_VERBOSE === '1';
+
+type AnyValue = {
+  stringValue?: string;
+  intValue?: string | number;
+  doubleValue?: number;
+  boolValue?: boolean;
+  arrayValue?: { values?: AnyValue[] };
+};
+type KeyValue = { key: string; value: AnyValue };
+
+interface ExportTraceRequest {
+  resourceSpans?: {
+    resource?: { attributes?: KeyValue[] };
+    scopeSpans?: {
+      spans?: {
+        traceId: string;
+        spanId: string;
+        parentSpanId?: string;
+        name: string;
+        startTimeUnixNano: string;
+        endTimeUnixNano: string;
+        attributes?: KeyValue[];
+        status?: { code?: number; message?: string };
+      }[];
+    }[];
+  }[];
+}
+
+function toValue(value: AnyValue): unknown {
+  if (value.arrayValue) return (value.arrayValue.values ?? []).map(toValue);
+  if (value.intValue !== undefined) return Number(value.intValue);
+  return value.stringValue ?? value.doubleValue ?? value.boolValue;
+}
+
+const toObject = (attributes: KeyValue[] = []) =>
+  Object.fromEntries(attributes.map(({ key, value }) => [key, toValue(value)]));
+
+function record(body: ExportTraceRequest): void {
+  for (const { resource, scopeSpans = [] } of body.resourceSpans ?? []) {
+    const resourceAttributes = toObject(resource?.attributes);
+
+    for (const { spans = [] } of scopeSpans) {
+      for (const span of spans) {
+        const attributes = toObject(span.attributes);
+        const durationMs = Number(BigInt(span.endTimeUnixNano) - BigInt(span.startTimeUnixNano)) / 1e6;
+        const op = attributes['sentry.op'] ? ` [${attributes['sentry.op']}]` : '';
+
+        console.log(
+          `🛰️  ${resourceAttributes['service.name']} ${span.name}${op} ${durationMs.toFixed(1)}ms ` +
+          `trace=${span.traceId} span=${span.spanId}${span.parentSpanId ? ` parent=${span.parentSpanId}` : ''}`
+        );
+        if (VERBOSE) {
+          console.log(attributes);
+        }
+        if (OUTPUT) {
+          const { attributes: _raw, ...rest } = span;
+          fs.appendFileSync(OUTPUT, JSON.stringify({ ...rest, durationMs, resource: resourceAttributes, attributes }) + '\n');
+        }
+      }
+    }
+  }
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST' || req.url !== '/v1/traces') {
+    res.writeHead(404).end();
+    return;
+  }
+  if (!req.headers['content-type']?.startsWith('application/json')) {
+    res.writeHead(415).end('Only OTLP/JSON is supported');
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    try {
+      record(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end('{}');
+    } catch (error) {
+      console.error('❌ Collector: Malformed export:', error);
+      res.writeHead(400).end();
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🛰️  OTLP collector listening on http://localhost:${PORT}/v1/traces`);
+});
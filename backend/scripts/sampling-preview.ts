@@ -0,0 +1,47 @@
+import { getSampleRate, SamplingInput } from 'snaptrace-shared';
+import { getTelemetryConfig } from '../src/telemetry';
+
+// Prints the rate the configured sampling policy gives a set of typical root
+// spans, so a SAMPLING_CONFIG change can be checked before it is deployed.
+// Run with the same environment as the server, e.g.
+//   SAMPLING_CONFIG=./sampling.json NODE_ENV=production npm run sampling:preview
+const MB = 1024 * 1024;
+
+const request = (method: string, route: string, contentLength?: number): SamplingInput => ({
+  name: `${method} ${route}`,
+  attributes: { 'sentry.op': 'http.server', 'http.request_content_length_uncompressed': contentLength }
+});
+
+const processing = (sizeBytes: number, attempt: number, queueWaitMs: number): SamplingInput => ({
+  name: 'Process media',
+  attributes: { 'sentry.op': 'media.process', 'media.size_bytes': sizeBytes, 'job.attempt': attempt, 'queue.wait_ms': queueWaitMs },
+  // media.process continues the trace of the upload that enqueued it
+  parentSampled: false
+});
+
+const SAMPLES: [string, SamplingInput][] = [
+  ['health check', request('GET', '/api/health')],
+  ['readiness probe', request('GET', '/api/health/ready')],
+  ['metrics scrape', request('GET', '/api/metrics')],
+  ['gallery page', request('GET', '/api/jobs')],
+  ['job status stream', request('GET', '/api/jobs/1234/events')],
+  ['small upload', request('POST', '/api/upload', 200 * 1024)],
+  ['large upload', request('POST', '/api/upload', 20 * MB)],
+  ['upload chunk', request('PUT', '/api/uploads/abc/chunks/3', MB)],
+  ['upload, caller sampled it', { ...request('POST', '/api/upload', 200 * 1024), parentSampled: true, parentSampleRate: 0.25 }],
+  ['upload, caller dropped it', { ...request('POST', '/api/upload', 200 * 1024), parentSampled: false, parentSampleRate: 0.25 }],
+  ['processing, first attempt', processing(2 * MB, 1, 40)],
+  ['processing, retry', processing(2 * MB, 2, 40)],
+  ['processing, long queue wait', processing(2 * MB, 1, 30_000)],
+  ['processing, large file', processing(20 * MB, 1, 40)]
+];
+
+const { environment, sampling } = getTelemetryConfig();
+console.log(`\n🎯 Sampling policy for ${environment}:\n${JSON.stringify(sampling, null, 2)}\n`);
+
+const width = Math.max(...SAMPLES.map(([label]) => label.length));
+for (const [label, input] of SAMPLES) {
+  const { rate, reason } = getSampleRate(sampling, input);
+  console.log(`${label.padEnd(width)}  ${`${Math.round(rate * 1000) / 10}%`.padStart(6)}  ${reason}`);
+}
+console.log();
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import http from 'http';
+import crypto from 'crypto';
+import type { WebhookPayload } from 'snaptrace-shared';
+
+// Stand-in webhook receiver for local development. Prints one line per
+// delivery with its trace headers, and checks the signature the way a real
+// receiver should when WEBHOOK_SECRET (from GET /api/webhooks) is set.
+// WEBHOOK_RECEIVER_FAIL answers the first N deliveries with a 500 to exercise
+// retries; WEBHOOK_RECEIVER_OUTPUT appends every delivery as a JSON line.
+const PORT = Number(process.env.WEBHOOK_RECEIVER_PORT) || 4319;
+const SECRET = process.env.WEBHOOK_SECRET;
+const OUTPUT = process.env.WEBHOOK_RECEIVER_OUTPUT;
+let failuresLeft = Number(process.env.WEBHOOK_RECEIVER_FAIL) || 0;
+
+// Older timestamps are refused so a captured delivery can't be replayed
+const MAX_AGE_SECONDS = 5 * 60;
+
+type Verdict = 'valid' | 'invalid' | 'stale' | 'unchecked';
+
+function verify(body: string, timestamp: string | undefined, signature: string | undefined): Verdict {
+  if (!SECRET) return 'unchecked';
+  if (!timestamp || !signature) return 'invalid';
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_AGE_SECONDS) return 'stale';
+
+  const expected = `sha256=${crypto.createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex')}`;
+  return expected.length === signature.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))
+    ? 'valid'
+    : 'invalid';
+}
+
+const header = (req: http.IncomingMessage, name: string) => {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405).end();
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const verdict = verify(body, header(req, 'x-snaptrace-timestamp'), header(req, 'x-snaptrace-signature'));
+
+    let payload: WebhookPayload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      console.error('❌ Receiver: Body is not JSON');
+      res.writeHead(400).end();
+      return;
+    }
+
+    const refused = verdict === 'invalid' || verdict === 'stale';
+    const status = refused ? 401 : failuresLeft-- > 0 ? 500 : 204;
+
+    console.log(
+      `🪝 ${payload.event} job=${payload.job.jobId} (${payload.job.fileName}) delivery=${payload.id} ` +
+      `signature=${verdict} → ${status}\n   traceparent=${header(req, 'traceparent') ?? '-'} sentry-trace=${header(req, 'sentry-trace') ?? '-'}`
+    );
+    if (OUTPUT) {
+      fs.appendFileSync(OUTPUT, JSON.stringify({
+        receivedAt: new Date().toISOString(),
+        status,
+        signature: verdict,
+        headers: req.headers,
+        payload
+      }) + '\n');
+    }
+    res.writeHead(status).end();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`🪝 Webhook receiver listening on http://localhost:${PORT}${SECRET ? ' (verifying signatures)' : ''}`);
+});
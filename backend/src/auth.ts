@@ -0,0 +1,117 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { z } from 'zod';
+import { Request, Response, NextFunction } from 'express';
+import * as Sentry from '@sentry/node';
+import { ErrorResponse, toFieldIssues } from 'snaptrace-shared';
+import { config } from './config';
+import { logger } from './logger';
+
+// Bearer token authentication. Tokens come from the JSON file named by
+// AUTH_TOKENS_FILE; with NODE_ENV=development and no such file, DEV_API_TOKEN
+// signs in as the user "dev". With AUTH_MODE=none nobody signs in: every request is the
+// anonymous user and sees every job.
+
+export interface AuthUser {
+  id: string;
+  name?: string;
+}
+
+const tokenFileSchema = z.array(z.object({
+  token: z.string().min(16),
+  userId: z.string().min(1),
+  name: z.string().optional()
+}).strict());
+
+export const DEV_API_TOKEN = 'snaptrace-dev-token';
+
+const ANONYMOUS_USER: AuthUser = { id: 'anonymous' };
+
+// Routes that work without a token: probes, metrics scrapes, what the upload
+// form needs to render, and the dev trace viewer
+const PUBLIC_PATHS = ['/api/health', '/api/health/live', '/api/health/ready', '/api/metrics', '/api/config', '/api/presets'];
+const PUBLIC_PREFIXES = ['/api/dev/'];
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Keyed by the token's hash so lookups never compare secrets directly
+function loadTokens(): Map<string, AuthUser> {
+  const tokens = new Map<string, AuthUser>();
+  const { mode, tokensFile } = config.auth;
+  if (mode === 'none') return tokens;
+
+  if (!tokensFile) {
+    if (config.environment === 'development') {
+      logger.warn('No AUTH_TOKENS_FILE, accepting the development token', { 'user.id': 'dev' });
+      tokens.set(hashToken(DEV_API_TOKEN), { id: 'dev', name: 'Developer' });
+    } else {
+      logger.warn('No AUTH_TOKENS_FILE, every authenticated request will be refused');
+    }
+    return tokens;
+  }
+
+  const result = tokenFileSchema.safeParse(JSON.parse(fs.readFileSync(tokensFile, 'utf8')));
+  if (!result.success) {
+    const issues = toFieldIssues(result.error).map((issue) => `${issue.field}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid AUTH_TOKENS_FILE ${tokensFile}: ${issues}`);
+  }
+  for (const entry of result.data) {
+    tokens.set(hashToken(entry.token), { id: entry.userId, name: entry.name });
+  }
+  return tokens;
+}
+
+const tokens = loadTokens();
+
+// EventSource and <img> can't send headers, so they pass ?access_token=
+function readToken(req: Request): string | undefined {
+  const header = req.header('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const query = typeof req.query.access_token === 'string' ? req.query.access_token : undefined;
+  return header ?? query;
+}
+
+// Keeps ?access_token= out of span attributes and Sentry events
+export function redactAccessToken(value: string): string {
+  return value.replace(/access_token=[^&#\s]*/g, 'access_token=[Filtered]');
+}
+
+export function authenticate(req: Request, res: Response<ErrorResponse>, next: NextFunction): void {
+  if (config.auth.mode === 'none') {
+    res.locals.user = ANONYMOUS_USER;
+    next();
+    return;
+  }
+  if (PUBLIC_PATHS.includes(req.path) || PUBLIC_PREFIXES.some((prefix) => req.path.startsWith(prefix))) {
+    next();
+    return;
+  }
+
+  const token = readToken(req);
+  const user = token ? tokens.get(hashToken(token)) : undefined;
+  if (!user) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    res.status(401).json({ error: token ? 'Invalid token' : 'Missing bearer token' });
+    return;
+  }
+
+  res.locals.user = user;
+  // Sentry's isolation scope is per request, so this only tags this request's
+  // transaction and errors; the attribute does the same for OTLP
+  Sentry.setUser({ id: user.id, username: user.name });
+  const activeSpan = Sentry.getActiveSpan();
+  if (activeSpan) {
+    Sentry.getRootSpan(activeSpan).setAttribute('user.id', user.id);
+  }
+  next();
+}
+
+// The signed in user; only call this behind authenticate
+export function getUser(res: Response): AuthUser {
+  return res.locals.user;
+}
+
+// Jobs and upload sessions belong to the user who created them. Without
+// authentication there are no owners to tell apart.
+export function isOwner(user: AuthUser, resource: { ownerId?: string }): boolean {
+  return config.auth.mode === 'none' || resource.ownerId === user.id;
+}
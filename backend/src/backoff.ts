@@ -0,0 +1,8 @@
+// Exponential backoff with jitter for the queue's and the webhooks' retries:
+// base, 2x base, 4x base... capped at maxMs, then spread by up to 20% either
+// way so that work which failed together isn't retried together.
+// `attempts` is how many attempts have failed so far.
+export function backoffDelay(attempts: number, baseMs: number, maxMs: number): number {
+  const backoff = Math.min(baseMs * 2 ** (attempts - 1), maxMs);
+  return Math.round(backoff * (0.8 + Math.random() * 0.4));
+}
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { BatchStatus } from 'snaptrace-shared';
+import { getJob, listJobs, saveJob, isTerminalStatus, ProcessingJob } from './processor';
+import { AuthUser, isOwner } from './auth';
+
+export class BatchError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'BatchError';
+  }
+}
+
+// A batch is just the set of jobs carrying its id, so it persists wherever
+// the jobs do and needs no store of its own
+export function createBatch(jobIds: string[], user: AuthUser): { id: string; jobs: ProcessingJob[] } {
+  const uniqueIds = [...new Set(jobIds)];
+  // Other users' jobs are reported as unknown
+  const jobs = uniqueIds.map((id) => getJob(id)).map((job) => job && isOwner(user, job) ? job : undefined);
+
+  const missing = uniqueIds.filter((_, i) => !jobs[i]);
+  if (missing.length > 0) {
+    throw new BatchError(`Unknown job(s): ${missing.join(', ')}`, 404);
+  }
+
+  const found = jobs as ProcessingJob[];
+  const grouped = found.filter((job) => job.batchId);
+  if (grouped.length > 0) {
+    throw new BatchError(`Job(s) already in a batch: ${grouped.map((job) => job.id).join(', ')}`, 409);
+  }
+
+  const id = crypto.randomUUID();
+  for (const job of found) {
+    job.batchId = id;
+    saveJob(job);
+  }
+  return { id, jobs: found };
+}
+
+export function getBatchJobs(batchId: string): ProcessingJob[] {
+  return listJobs()
+    .filter((job) => job.batchId === batchId)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+export function getBatchStatus(jobs: ProcessingJob[]): BatchStatus {
+  if (jobs.some((job) => !isTerminalStatus(job.status))) return 'processing';
+
+  const completed = jobs.filter((job) => job.status === 'completed').length;
+  if (completed === jobs.length) return 'completed';
+  return completed === 0 ? 'failed' : 'partial';
+}
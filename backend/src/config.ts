@@ -0,0 +1,220 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { toFieldIssues } from 'snaptrace-shared';
+
+// Every runtime setting in one place. Values come from environment variables,
+// or from the JSON file named by CONFIG_FILE using the same names as keys;
+// the environment wins over the file. Everything is validated once, at
+// startup, and a bad value stops the server with the full list of problems.
+
+const MB = 1024 * 1024;
+
+const DEFAULT_CORS_ORIGINS = [
+  'http://localhost:5173',  // Vite default port
+  'http://localhost:5174',  // Vite fallback port
+  'http://127.0.0.1:5173',
+  'http://127.0.0.1:5174'
+];
+
+const positiveInt = z.coerce.number().int().positive();
+
+// "true"/"false" in the environment, a boolean in the config file
+const flag = z.union([z.boolean(), z.enum(['true', 'false']).transform((value) => value === 'true')]);
+
+// Comma separated in the environment, an array in the config file
+const originList = z.preprocess(
+  (value) => typeof value === 'string' ? value.split(',').map((origin) => origin.trim()).filter(Boolean) : value,
+  z.array(z.string().url())
+);
+
+const configFields = z.object({
+  PORT: positiveInt.default(3001),
+  // Unset means production, so the development conveniences (the dev token,
+  // private webhook URLs, local trace capture) are never on by accident
+  NODE_ENV: z.string().default('production'),
+  CORS_ORIGINS: originList.default(DEFAULT_CORS_ORIGINS),
+  // Added to CORS_ORIGINS
+  FRONTEND_URL: z.string().url().optional(),
+  STORAGE_DIR: z.string().default('storage'),
+  // token: every API call needs a bearer token; none: no authentication
+  AUTH_MODE: z.enum(['token', 'none']).default('token'),
+  // JSON list of { token, userId, name? }
+  AUTH_TOKENS_FILE: z.string().optional(),
+  LOG_LEVEL: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+  // Defaults to pretty in development and json elsewhere
+  LOG_FORMAT: z.enum(['pretty', 'json']).optional(),
+
+  MAX_UPLOAD_BYTES: positiveInt.default(50 * MB),
+  DEFAULT_CHUNK_BYTES: positiveInt.default(MB),
+  MIN_CHUNK_BYTES: positiveInt.default(64 * 1024),
+  MAX_CHUNK_BYTES: positiveInt.default(8 * MB),
+  UPLOAD_SESSION_TTL_MS: positiveInt.default(24 * 60 * 60 * 1000),
+  // Per client (user, or IP with AUTH_MODE=none): a token bucket for requests
+  // that start an upload, and daily totals of uploaded bytes and created jobs
+  RATE_LIMIT_PER_MINUTE: positiveInt.default(30),
+  RATE_LIMIT_BURST: positiveInt.default(10),
+  QUOTA_DAILY_BYTES: positiveInt.default(1024 * MB),
+  QUOTA_DAILY_JOBS: positiveInt.default(500),
+
+  MEDIA_SCANNER: z.enum(['stub', 'none']).default('stub'),
+  MAX_IMAGE_DIMENSION: positiveInt.default(16384),
+  MAX_IMAGE_PIXELS: positiveInt.default(50_000_000),
+
+  JOB_STORE: z.enum(['memory', 'file']).default('memory'),
+  // Defaults to jobs.jsonl in STORAGE_DIR
+  JOB_STORE_PATH: z.string().optional(),
+  JOB_RECOVERY: z.enum(['resume', 'fail']).default('resume'),
+
+  QUEUE_CONCURRENCY: positiveInt.default(2),
+  QUEUE_MAX_ATTEMPTS: positiveInt.default(3),
+  QUEUE_BACKOFF_BASE_MS: positiveInt.default(1000),
+  QUEUE_BACKOFF_MAX_MS: positiveInt.default(60 * 1000),
+  // How long SIGTERM waits for running jobs before exiting anyway
+  SHUTDOWN_TIMEOUT_MS: positiveInt.default(25 * 1000),
+  // Job notifications (see webhooks.ts). Each account's signing secret is
+  // derived from WEBHOOK_SIGNING_KEY; without one they change on every restart.
+  WEBHOOK_SIGNING_KEY: z.string().min(32).optional(),
+  WEBHOOK_TIMEOUT_MS: positiveInt.default(10 * 1000),
+  WEBHOOK_MAX_ATTEMPTS: positiveInt.default(5),
+  WEBHOOK_BACKOFF_BASE_MS: positiveInt.default(5 * 1000),
+  WEBHOOK_BACKOFF_MAX_MS: positiveInt.default(5 * 60 * 1000),
+  // Deliver to localhost and private networks; defaults to true in development only
+  WEBHOOK_ALLOW_PRIVATE_URLS: flag.optional(),
+  // Health checks above these are degraded: jobs waiting for a worker or a
+  // retry, event loop delay (p99), and heap used as a percentage of its limit
+  HEALTH_MAX_QUEUE_BACKLOG: positiveInt.default(100),
+  HEALTH_MAX_EVENT_LOOP_LAG_MS: positiveInt.default(200),
+  HEALTH_MAX_HEAP_PERCENT: positiveInt.max(100).default(90),
+
+  SENTRY_DSN: z.string().url().optional(),
+  TRACE_CAPTURE: z.enum(['local', 'off']).optional(),
+  SAMPLING_CONFIG: z.string().optional(),
+  TRACES_SAMPLE_RATE: z.coerce.number().min(0).max(1).optional(),
+  PROFILES_SAMPLE_RATE: z.coerce.number().min(0).max(1).optional(),
+  OTEL_SERVICE_NAME: z.string().default('snaptrace-backend'),
+  SERVICE_VERSION: z.string().optional(),
+  OTEL_EXPORTER_OTLP_ENDPOINT: z.string().url().optional(),
+  OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: z.string().url().optional()
+}).strict();
+
+const rawConfigSchema = configFields
+  .refine((raw) => raw.MIN_CHUNK_BYTES <= raw.DEFAULT_CHUNK_BYTES && raw.DEFAULT_CHUNK_BYTES <= raw.MAX_CHUNK_BYTES, {
+    message: 'Expected MIN_CHUNK_BYTES <= DEFAULT_CHUNK_BYTES <= MAX_CHUNK_BYTES',
+    path: ['DEFAULT_CHUNK_BYTES']
+  })
+  .refine((raw) => raw.QUEUE_BACKOFF_BASE_MS <= raw.QUEUE_BACKOFF_MAX_MS, {
+    message: 'Expected QUEUE_BACKOFF_BASE_MS <= QUEUE_BACKOFF_MAX_MS',
+    path: ['QUEUE_BACKOFF_BASE_MS']
+  })
+  .refine((raw) => raw.WEBHOOK_BACKOFF_BASE_MS <= raw.WEBHOOK_BACKOFF_MAX_MS, {
+    message: 'Expected WEBHOOK_BACKOFF_BASE_MS <= WEBHOOK_BACKOFF_MAX_MS',
+    path: ['WEBHOOK_BACKOFF_BASE_MS']
+  });
+
+type RawConfig = z.output<typeof rawConfigSchema>;
+
+function toAppConfig(raw: RawConfig) {
+  const storageDir = path.resolve(raw.STORAGE_DIR);
+
+  return {
+    port: raw.PORT,
+    environment: raw.NODE_ENV,
+    corsOrigins: raw.FRONTEND_URL ? [...new Set([...raw.CORS_ORIGINS, raw.FRONTEND_URL])] : raw.CORS_ORIGINS,
+    storageDir,
+    auth: {
+      mode: raw.AUTH_MODE,
+      tokensFile: raw.AUTH_TOKENS_FILE && path.resolve(raw.AUTH_TOKENS_FILE)
+    },
+    logging: {
+      level: raw.LOG_LEVEL,
+      format: raw.LOG_FORMAT ?? (raw.NODE_ENV === 'development' ? 'pretty' : 'json')
+    },
+    uploads: {
+      maxBytes: raw.MAX_UPLOAD_BYTES,
+      defaultChunkBytes: raw.DEFAULT_CHUNK_BYTES,
+      minChunkBytes: raw.MIN_CHUNK_BYTES,
+      maxChunkBytes: raw.MAX_CHUNK_BYTES,
+      sessionTtlMs: raw.UPLOAD_SESSION_TTL_MS
+    },
+    limits: {
+      requestsPerMinute: raw.RATE_LIMIT_PER_MINUTE,
+      burst: raw.RATE_LIMIT_BURST,
+      dailyBytes: raw.QUOTA_DAILY_BYTES,
+      dailyJobs: raw.QUOTA_DAILY_JOBS
+    },
+    scanning: {
+      scanner: raw.MEDIA_SCANNER,
+      maxImageDimension: raw.MAX_IMAGE_DIMENSION,
+      maxImagePixels: raw.MAX_IMAGE_PIXELS
+    },
+    jobs: {
+      store: raw.JOB_STORE,
+      storePath: path.resolve(raw.JOB_STORE_PATH ?? path.join(storageDir, 'jobs.jsonl')),
+      recovery: raw.JOB_RECOVERY
+    },
+    queue: {
+      concurrency: raw.QUEUE_CONCURRENCY,
+      maxAttempts: raw.QUEUE_MAX_ATTEMPTS,
+      backoffBaseMs: raw.QUEUE_BACKOFF_BASE_MS,
+      backoffMaxMs: raw.QUEUE_BACKOFF_MAX_MS
+    },
+    shutdown: {
+      timeoutMs: raw.SHUTDOWN_TIMEOUT_MS
+    },
+    webhooks: {
+      signingKey: raw.WEBHOOK_SIGNING_KEY,
+      timeoutMs: raw.WEBHOOK_TIMEOUT_MS,
+      maxAttempts: raw.WEBHOOK_MAX_ATTEMPTS,
+      backoffBaseMs: raw.WEBHOOK_BACKOFF_BASE_MS,
+      backoffMaxMs: raw.WEBHOOK_BACKOFF_MAX_MS,
+      allowPrivateUrls: raw.WEBHOOK_ALLOW_PRIVATE_URLS ?? raw.NODE_ENV === 'development'
+    },
+    health: {
+      maxQueueBacklog: raw.HEALTH_MAX_QUEUE_BACKLOG,
+      maxEventLoopLagMs: raw.HEALTH_MAX_EVENT_LOOP_LAG_MS,
+      maxHeapPercent: raw.HEALTH_MAX_HEAP_PERCENT
+    },
+    telemetry: {
+      sentryDsn: raw.SENTRY_DSN,
+      traceCapture: raw.TRACE_CAPTURE,
+      samplingConfigPath: raw.SAMPLING_CONFIG && path.resolve(raw.SAMPLING_CONFIG),
+      tracesSampleRate: raw.TRACES_SAMPLE_RATE,
+      profilesSampleRate: raw.PROFILES_SAMPLE_RATE,
+      serviceName: raw.OTEL_SERVICE_NAME,
+      serviceVersion: raw.SERVICE_VERSION,
+      // The OTLP exporter reads these itself; they only decide whether it runs
+      otlpEndpoint: raw.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT ?? raw.OTEL_EXPORTER_OTLP_ENDPOINT
+    }
+  };
+}
+
+export type AppConfig = ReturnType<typeof toAppConfig>;
+
+function readConfigFile(configFile: string): Record<string, unknown> {
+  try {
+    return JSON.parse(fs.readFileSync(path.resolve(configFile), 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read CONFIG_FILE ${configFile}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const file = env.CONFIG_FILE ? readConfigFile(env.CONFIG_FILE) : {};
+
+  // `KEY=` in a .env file means unset, not an empty value
+  const fromEnv = Object.fromEntries(
+    Object.keys(configFields.shape)
+      .filter((key) => env[key] !== undefined && env[key] !== '')
+      .map((key) => [key, env[key]])
+  );
+
+  const result = rawConfigSchema.safeParse({ ...file, ...fromEnv });
+  if (!result.success) {
+    const issues = toFieldIssues(result.error).map((issue) => `  - ${issue.field}: ${issue.message}`).join('\n');
+    throw new Error(`Invalid configuration${env.CONFIG_FILE ? ` (CONFIG_FILE ${env.CONFIG_FILE})` : ''}:\n${issues}`);
+  }
+  return toAppConfig(result.data);
+}
+
+export const config = loadConfig();
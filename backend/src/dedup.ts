@@ -0,0 +1,31 @@
+import fs from 'fs';
+import { TranscodePreset } from 'snaptrace-shared';
+import { createJob, listJobs, saveJob, ProcessingJob } from './processor';
+import { getStoragePath } from './storage';
+
+// Latest completed job with identical content and preset whose files are all
+// still on disk. Only completed work is reused; anything else is processed again.
+// Only the owner's own jobs count, so a hash never reveals what others uploaded.
+export function findReusableJob(contentHash: string, preset: TranscodePreset, ownerId?: string): ProcessingJob | undefined {
+  return listJobs()
+    .filter((job) => job.contentHash === contentHash && job.preset === preset && job.status === 'completed' && job.ownerId === ownerId)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .find((job) =>
+      [job.storageKey, job.result?.outputKey, job.result?.thumbnailKey]
+        .every((key) => !key || fs.existsSync(getStoragePath(key)))
+    );
+}
+
+// A new, already completed job for a repeat upload. It points at the source
+// job's stored files instead of copying them.
+export function createDeduplicatedJob(source: ProcessingJob, fileName: string, clientId?: string, callbackUrl?: string): ProcessingJob {
+  const job = createJob(fileName, source.fileType, source.fileSize, source.storageKey, source.preset, source.contentHash, clientId, source.ownerId, callbackUrl);
+
+  job.status = 'completed';
+  job.completedAt = new Date();
+  job.dedupedFrom = source.dedupedFrom ?? source.id;
+  job.result = source.result && { ...source.result };
+  saveJob(job);
+
+  return job;
+}
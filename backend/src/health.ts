@@ -0,0 +1,107 @@
+import fs from 'fs';
+import v8 from 'v8';
+import { monitorEventLoopDelay } from 'perf_hooks';
+import type { HealthCheckName, HealthCheckResult, HealthResponse, HealthStatus } from 'snaptrace-shared';
+import { getStoragePath } from './storage';
+import { checkJobStore } from './processor';
+import { getQueueStats } from './queue';
+import { isDraining } from './shutdown';
+import { config } from './config';
+import { logger } from './logger';
+
+// Health probes. Liveness asks whether the process itself is well (event loop
+// delay, heap); readiness asks whether it can take work (storage, job store,
+// queue backlog) and is never ready while draining. A failed dependency is
+// unhealthy and answers 503. A check over its HEALTH_MAX_* threshold is only
+// degraded and still answers 200, so a busy server stays in rotation.
+
+export type HealthProbe = 'live' | 'ready' | 'all';
+
+const PROBE_CHECKS: Record<HealthProbe, HealthCheckName[]> = {
+  live: ['eventLoop', 'memory'],
+  ready: ['storage', 'jobStore', 'queue'],
+  all: ['storage', 'jobStore', 'queue', 'eventLoop', 'memory']
+};
+
+const SEVERITY: HealthCheckResult['status'][] = ['healthy', 'degraded', 'unhealthy'];
+
+const { maxQueueBacklog, maxEventLoopLagMs, maxHeapPercent } = config.health;
+
+// Event loop delay is read per window rather than per probe, so frequent
+// probes don't each see only the few milliseconds since the last one
+const LAG_WINDOW_MS = 10_000;
+// The sampling timer's own interval is part of every reading
+const LAG_RESOLUTION_MS = 20;
+const eventLoopDelay = monitorEventLoopDelay({ resolution: LAG_RESOLUTION_MS });
+eventLoopDelay.enable();
+let lastWindowLagMs = 0;
+
+setInterval(() => {
+  lastWindowLagMs = eventLoopDelay.percentile(99) / 1e6;
+  eventLoopDelay.reset();
+}, LAG_WINDOW_MS).unref();
+
+const overThreshold = (value: number, threshold: number, unit: string): HealthCheckResult => ({
+  status: value > threshold ? 'degraded' : 'healthy',
+  value,
+  threshold,
+  unit
+});
+
+// Write and remove a file where uploads are stored
+async function checkStorage(): Promise<HealthCheckResult> {
+  const probe = getStoragePath(`.health-${process.pid}`);
+  await fs.promises.writeFile(probe, '');
+  await fs.promises.rm(probe, { force: true });
+  return { status: 'healthy' };
+}
+
+const CHECKS: Record<HealthCheckName, () => HealthCheckResult | Promise<HealthCheckResult>> = {
+  storage: checkStorage,
+  jobStore: () => ({ status: 'healthy', message: checkJobStore() }),
+  queue: () => {
+    const { depth, delayed } = getQueueStats();
+    return overThreshold(depth + delayed, maxQueueBacklog, 'jobs');
+  },
+  eventLoop: () => {
+    const lagMs = Math.max(lastWindowLagMs, eventLoopDelay.percentile(99) / 1e6);
+    return overThreshold(Math.max(0, Math.round(lagMs - LAG_RESOLUTION_MS)), maxEventLoopLagMs, 'ms');
+  },
+  memory: () => {
+    const { used_heap_size, heap_size_limit } = v8.getHeapStatistics();
+    return overThreshold(Math.round((used_heap_size / heap_size_limit) * 100), maxHeapPercent, '%');
+  }
+};
+
+// The probes are public, so the answer only names the error code; the log has the rest
+async function runCheck(name: HealthCheckName): Promise<HealthCheckResult> {
+  try {
+    return await CHECKS[name]();
+  } catch (error) {
+    logger.warn('Health check failed', { 'health.check': name, error });
+    return { status: 'unhealthy', message: (error as NodeJS.ErrnoException).code ?? 'Check failed' };
+  }
+}
+
+export async function checkHealth(probe: HealthProbe): Promise<HealthResponse> {
+  const names = PROBE_CHECKS[probe];
+  const results = await Promise.all(names.map(runCheck));
+  const checks = Object.fromEntries(names.map((name, index) => [name, results[index]]));
+
+  const worst = SEVERITY[Math.max(...results.map((result) => SEVERITY.indexOf(result.status)))];
+  // A draining process is still alive, just no longer ready
+  const status = probe !== 'live' && isDraining() ? 'draining' : worst;
+
+  return {
+    app: 'SnapTrace Backend',
+    status,
+    timestamp: new Date().toISOString(),
+    uptimeSeconds: Math.round(process.uptime()),
+    checks
+  };
+}
+
+// Degraded still serves; unhealthy and draining should get no traffic
+export function toHealthStatusCode(status: HealthStatus): number {
+  return status === 'unhealthy' || status === 'draining' ? 503 : 200;
+}
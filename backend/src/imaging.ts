@@ -0,0 +1,37 @@
+import { Jimp, JimpInstance } from 'jimp';
+
+export type OutputFormat = 'image/jpeg' | 'image/png';
+
+export const OUTPUT_EXTENSIONS: Record<OutputFormat, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png'
+};
+
+export async function decodeImage(filePath: string): Promise<JimpInstance> {
+  return (await Jimp.read(filePath)) as JimpInstance;
+}
+
+// Downscale (never upscale) so the image fits within the given bounds
+export function fitWithin(image: JimpInstance, maxWidth: number, maxHeight: number): JimpInstance {
+  if (image.width <= maxWidth && image.height <= maxHeight) {
+    return image;
+  }
+  return image.scaleToFit({ w: maxWidth, h: maxHeight }) as JimpInstance;
+}
+
+// Square, center-cropped thumbnail
+export function createThumbnail(image: JimpInstance, size: number): JimpInstance {
+  return image.clone().cover({ w: size, h: size }) as JimpInstance;
+}
+
+// Keep transparency when the source has it, otherwise recompress as JPEG
+export function pickOutputFormat(image: JimpInstance): OutputFormat {
+  return image.hasAlpha() ? 'image/png' : 'image/jpeg';
+}
+
+export async function encodeImage(image: JimpInstance, format: OutputFormat, quality: number): Promise<Buffer> {
+  if (format === 'image/jpeg') {
+    return image.getBuffer('image/jpeg', { quality });
+  }
+  return image.getBuffer('image/png', { deflateLevel: 9 });
+}
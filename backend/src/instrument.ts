@@ -1,12 +1,47 @@
 import * as Sentry from '@sentry/node';
 import { nodeProfilingIntegration } from '@sentry/profiling-node';
+import { getSampleRate } from 'snaptrace-shared';
+import { getTelemetryConfig, setupTracing } from './telemetry';
+import { CAPTURE_DSN, makeCaptureTransport } from './traceCapture';
+import { redactAccessToken } from './auth';
 
-Sentry.init({
-    dsn: process.env.SENTRY_DSN || 'YOUR_BACKEND_DSN_HERE',
+const telemetry = getTelemetryConfig();
+
+// Events carry the request URL and query string, which may hold ?access_token=
+function redactRequest<T extends Sentry.Event>(event: T): T {
+  const request = event.request;
+  if (request?.url) {
+    request.url = redactAccessToken(request.url);
+  }
+  if (typeof request?.query_string === 'string') {
+    request.query_string = redactAccessToken(request.query_string);
+  }
+  return event;
+}
+
+const client = Sentry.init({
+    dsn: telemetry.sentryDsn ?? (telemetry.traceCapture ? CAPTURE_DSN : undefined),
+    // Envelopes stay in memory for GET /api/dev/traces instead of going to Sentry
+    transport: telemetry.traceCapture ? makeCaptureTransport : undefined,
     integrations: [
-      nodeProfilingIntegration()
+      nodeProfilingIntegration(),
+      // These default to no spans under skipOpenTelemetrySetup
+      Sentry.httpIntegration({
+        spans: true,
+        // The dev trace viewer polling itself would crowd out real traces
+        ignoreIncomingRequests: (url) => url.startsWith('/api/dev/')
+      }),
+      Sentry.nativeNodeFetchIntegration({ spans: true })
     ],
-    tracesSampleRate: 1.0,
-    profilesSampleRate: 1.0,
-    environment: process.env.NODE_ENV || 'development'
-  });
\ No newline at end of file
+    tracesSampler: (samplingContext) => getSampleRate(telemetry.sampling, samplingContext).rate,
+    profilesSampleRate: telemetry.sampling.profilesRate,
+    // Sentry.logger calls from src/logger.ts
+    enableLogs: true,
+    beforeSend: redactRequest,
+    beforeSendTransaction: redactRequest,
+    environment: telemetry.environment,
+    // The tracer provider is set up below so spans can also go out over OTLP
+    skipOpenTelemetrySetup: true
+  });
+
+setupTracing(client, telemetry);
@@ -0,0 +1,95 @@
+import { JobSortField, ListJobsQuery } from 'snaptrace-shared';
+import { ProcessingJob } from './processor';
+
+type SortOrder = ListJobsQuery['order'];
+
+export interface JobPage {
+  jobs: ProcessingJob[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// The cursor pins the sort it was issued for plus the last job on the page,
+// so a page boundary stays stable while jobs are added or removed.
+interface CursorPosition {
+  sort: JobSortField;
+  order: SortOrder;
+  value: string | number;
+  id: string;
+}
+
+export class InvalidCursorError extends Error {}
+
+const sortValue = (job: ProcessingJob, field: JobSortField): string | number => {
+  switch (field) {
+    case 'createdAt':
+      return job.createdAt.getTime();
+    case 'fileSize':
+      return job.fileSize;
+    case 'fileName':
+      return job.fileName.toLowerCase();
+  }
+};
+
+// Ties on the sort field fall back to the id so the ordering is total
+function compareJobs(a: { value: string | number; id: string }, b: { value: string | number; id: string }): number {
+  if (a.value < b.value) return -1;
+  if (a.value > b.value) return 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function encodeCursor(position: CursorPosition): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: JobSortField, order: SortOrder): CursorPosition {
+  let position: CursorPosition;
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError('Malformed cursor');
+  }
+
+  if (position?.sort !== sort || position.order !== order || typeof position.id !== 'string') {
+    throw new InvalidCursorError('Cursor does not match the requested sort');
+  }
+  return position;
+}
+
+// "image/*" matches every image type, anything else must match exactly
+const matchesMimeType = (fileType: string, pattern: string) =>
+  pattern.endsWith('/*') ? fileType.startsWith(pattern.slice(0, -1)) : fileType === pattern;
+
+export function queryJobs(jobs: ProcessingJob[], query: ListJobsQuery): JobPage {
+  const direction = query.order === 'asc' ? 1 : -1;
+
+  const matching = jobs
+    .filter((job) =>
+      (!query.status || query.status.includes(job.status)) &&
+      (!query.mimeType || matchesMimeType(job.fileType, query.mimeType)) &&
+      (!query.batchId || job.batchId === query.batchId) &&
+      (!query.createdAfter || job.createdAt >= query.createdAfter) &&
+      (!query.createdBefore || job.createdAt < query.createdBefore)
+    )
+    .map((job) => ({ job, value: sortValue(job, query.sort), id: job.id }))
+    .sort((a, b) => direction * compareJobs(a, b));
+
+  let start = 0;
+  if (query.cursor) {
+    const position = decodeCursor(query.cursor, query.sort, query.order);
+    start = matching.findIndex((entry) => direction * compareJobs(entry, position) > 0);
+    if (start === -1) start = matching.length;
+  }
+
+  const page = matching.slice(start, start + query.limit);
+  const last = page[page.length - 1];
+  const hasMore = start + page.length < matching.length;
+
+  return {
+    jobs: page.map((entry) => entry.job),
+    total: matching.length,
+    nextCursor: hasMore && last
+      ? encodeCursor({ sort: query.sort, order: query.order, value: last.value, id: last.id })
+      : null
+  };
+}
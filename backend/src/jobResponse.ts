@@ -0,0 +1,29 @@
+import type { JobResponse, JobResult } from 'snaptrace-shared';
+import type { ProcessingJob } from './processor';
+
+// How a job looks to clients, in API responses and webhook payloads
+
+// Storage keys are internal; clients fetch outputs through the files route
+function toJobResult(result: ProcessingJob['result']): JobResult | undefined {
+  if (!result) return undefined;
+  const { outputKey, thumbnailKey, ...publicResult } = result;
+  return publicResult;
+}
+
+export function toJobResponse(job: ProcessingJob): JobResponse {
+  return {
+    jobId: job.id,
+    status: job.status,
+    fileName: job.fileName,
+    fileType: job.fileType,
+    fileSize: job.fileSize,
+    preset: job.preset,
+    batchId: job.batchId,
+    dedupedFrom: job.dedupedFrom,
+    traceId: job.trace?.traceId,
+    attempts: job.attempts,
+    createdAt: job.createdAt.toISOString(),
+    completedAt: job.completedAt?.toISOString(),
+    result: toJobResult(job.result)
+  };
+}
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+import type { ProcessingJob } from './processor';
+
+// Where jobs live. Kept synchronous so callers can treat it like the Map it replaced.
+export interface JobStore {
+  readonly kind: string;
+  get(id: string): ProcessingJob | undefined;
+  save(job: ProcessingJob): void;
+  delete(id: string): void;
+  list(): ProcessingJob[];
+  // Throws if the store can't take writes (see health.ts)
+  check(): void;
+}
+
+export function createMemoryJobStore(): JobStore {
+  const jobs = new Map<string, ProcessingJob>();
+
+  return {
+    kind: 'memory',
+    get: (id) => jobs.get(id),
+    save: (job) => {
+      jobs.set(job.id, job);
+    },
+    delete: (id) => {
+      jobs.delete(id);
+    },
+    list: () => [...jobs.values()],
+    check: () => {}
+  };
+}
+
+type JobRecord = ProcessingJob | { id: string; deleted: true };
+
+// JSON serializes dates as strings; turn them back into Date objects
+function reviveJob(record: ProcessingJob): ProcessingJob {
+  return {
+    ...record,
+    attempts: record.attempts ?? 0,
+    createdAt: new Date(record.createdAt),
+    completedAt: record.completedAt ? new Date(record.completedAt) : undefined,
+    deadLetteredAt: record.deadLetteredAt ? new Date(record.deadLetteredAt) : undefined
+  };
+}
+
+// Append-only JSON-lines log. Every save appends the full job, the last line
+// for an id wins, and the log is compacted on startup.
+export function createFileJobStore(filePath: string): JobStore {
+  const jobs = new Map<string, ProcessingJob>();
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+  if (fs.existsSync(filePath)) {
+    const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as JobRecord;
+        if ('deleted' in record) {
+          jobs.delete(record.id);
+        } else {
+          jobs.set(record.id, reviveJob(record));
+        }
+      } catch {
+        // A torn final line from a crash mid-write; everything before it is intact
+      }
+    }
+
+    const compacted = [...jobs.values()].map((job) => JSON.stringify(job) + '\n').join('');
+    fs.writeFileSync(`${filePath}.tmp`, compacted);
+    fs.renameSync(`${filePath}.tmp`, filePath);
+  }
+
+  const append = (record: JobRecord) => {
+    fs.appendFileSync(filePath, JSON.stringify(record) + '\n');
+  };
+
+  return {
+    kind: 'file',
+    get: (id) => jobs.get(id),
+    save: (job) => {
+      jobs.set(job.id, job);
+      append(job);
+    },
+    delete: (id) => {
+      jobs.delete(id);
+      append({ id, deleted: true });
+    },
+    list: () => [...jobs.values()],
+    check: () => {
+      // The log only exists after the first save
+      fs.accessSync(fs.existsSync(filePath) ? filePath : path.dirname(filePath), fs.constants.W_OK);
+    }
+  };
+}
+
+// JOB_STORE=memory (default) or JOB_STORE=file
+export function createJobStore(): JobStore {
+  switch (config.jobs.store) {
+    case 'memory':
+      return createMemoryJobStore();
+    case 'file':
+      return createFileJobStore(config.jobs.storePath);
+  }
+}
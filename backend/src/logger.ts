@@ -0,0 +1,102 @@
+import * as Sentry from '@sentry/node';
+import { config } from './config';
+
+// Structured logging. Every line carries the active span's trace_id and
+// span_id, plus whatever a child logger is bound to (e.g. job.id), so logs can
+// be joined to their traces. LOG_FORMAT picks JSON lines or a readable format
+// for development; lines at LOG_LEVEL and above are also sent to Sentry's
+// logs, where they show up next to the spans they were written in.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// Errors may be passed as `error`; undefined values are left out
+export type LogAttributes = Record<string, unknown>;
+
+type LogValue = string | number | boolean;
+
+export interface Logger {
+  debug(message: string, attributes?: LogAttributes): void;
+  info(message: string, attributes?: LogAttributes): void;
+  warn(message: string, attributes?: LogAttributes): void;
+  error(message: string, attributes?: LogAttributes): void;
+  // A logger that adds these attributes to every line
+  child(bindings: LogAttributes): Logger;
+}
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+const PRETTY_LEVELS: Record<LogLevel, string> = {
+  debug: '🔍 DEBUG',
+  info: '✨ INFO ',
+  warn: '⚠️  WARN ',
+  error: '❌ ERROR'
+};
+
+const CONSOLE_METHODS: Record<LogLevel, (line: string) => void> = {
+  debug: console.debug,
+  info: console.log,
+  warn: console.warn,
+  error: console.error
+};
+
+function toLogValue(value: unknown): LogValue {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean' ? value : JSON.stringify(value);
+}
+
+function flatten(attributes: LogAttributes): Record<string, LogValue> {
+  const fields: Record<string, LogValue> = {};
+
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value === undefined) continue;
+    if (value instanceof Error) {
+      fields[`${key}.type`] = value.name;
+      fields[`${key}.message`] = value.message;
+      if (value.stack) fields[`${key}.stack`] = value.stack;
+    } else {
+      fields[key] = toLogValue(value);
+    }
+  }
+  return fields;
+}
+
+function formatPretty(level: LogLevel, timestamp: Date, message: string, fields: Record<string, LogValue>): string {
+  const { 'error.stack': stack, ...rest } = fields;
+  const pairs = Object.entries(rest).map(([key, value]) =>
+    `${key}=${typeof value === 'string' && /\s/.test(value) ? JSON.stringify(value) : value}`
+  );
+  const line = `${timestamp.toISOString().slice(11, 23)} ${PRETTY_LEVELS[level]} ${message}${pairs.length > 0 ? `  ${pairs.join(' ')}` : ''}`;
+  return stack ? `${line}\n${stack}` : line;
+}
+
+function write(level: LogLevel, message: string, attributes: LogAttributes): void {
+  if (LEVELS.indexOf(level) < LEVELS.indexOf(config.logging.level)) return;
+
+  const fields = flatten(attributes);
+  const spanContext = Sentry.getActiveSpan()?.spanContext();
+  const traceFields: Record<string, LogValue> = spanContext ? { trace_id: spanContext.traceId, span_id: spanContext.spanId } : {};
+  const timestamp = new Date();
+
+  CONSOLE_METHODS[level](
+    config.logging.format === 'json'
+      ? JSON.stringify({ timestamp: timestamp.toISOString(), level, message, ...traceFields, ...fields })
+      : formatPretty(level, timestamp, message, { ...fields, ...traceFields })
+  );
+
+  // Sentry links the log to the active span itself
+  Sentry.logger[level](message, fields);
+}
+
+export function createLogger(bindings: LogAttributes = {}): Logger {
+  const log = (level: LogLevel) => (message: string, attributes: LogAttributes = {}) =>
+    write(level, message, { ...bindings, ...attributes });
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (more) => createLogger({ ...bindings, ...more })
+  };
+}
+
+export const logger = createLogger();
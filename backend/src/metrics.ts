@@ -0,0 +1,135 @@
+import client from 'prom-client';
+import type { QueueStats } from './queue';
+
+// Prometheus registry served by GET /api/metrics. These mirror what the spans
+// record so dashboards outside Sentry see the same numbers; label values are
+// kept to small fixed sets.
+export const registry = new client.Registry();
+client.collectDefaultMetrics({ register: registry, prefix: 'snaptrace_' });
+
+const uploadsReceived = new client.Counter({
+  name: 'snaptrace_uploads_received_total',
+  help: 'Uploads accepted, by transfer mode and preset',
+  labelNames: ['transfer_mode', 'preset', 'deduplicated'] as const,
+  registers: [registry]
+});
+
+const uploadSize = new client.Histogram({
+  name: 'snaptrace_upload_size_bytes',
+  help: 'Size of accepted uploads',
+  labelNames: ['transfer_mode'] as const,
+  buckets: [64 * 1024, 256 * 1024, 1024 * 1024, 4 * 1024 * 1024, 10 * 1024 * 1024, 25 * 1024 * 1024, 50 * 1024 * 1024],
+  registers: [registry]
+});
+
+const validationFailures = new client.Counter({
+  name: 'snaptrace_upload_validation_failures_total',
+  help: 'Uploads refused before a job was created, by reason',
+  labelNames: ['reason'] as const,
+  registers: [registry]
+});
+
+const uploadsLimited = new client.Counter({
+  name: 'snaptrace_uploads_limited_total',
+  help: 'Upload requests answered 429, by rate_limited or quota_exceeded',
+  labelNames: ['reason'] as const,
+  registers: [registry]
+});
+
+const scanRejections = new client.Counter({
+  name: 'snaptrace_scan_rejections_total',
+  help: 'Files refused by the content scan, by reason',
+  labelNames: ['reason'] as const,
+  registers: [registry]
+});
+
+const processingDuration = new client.Histogram({
+  name: 'snaptrace_processing_duration_seconds',
+  help: 'Time spent in media.process, by size bucket, preset and outcome',
+  labelNames: ['size_bucket', 'preset', 'outcome'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [registry]
+});
+
+const bytesSaved = new client.Counter({
+  name: 'snaptrace_processing_size_saved_bytes_total',
+  help: 'Bytes saved by optimization (result.size_saved_bytes), by preset',
+  labelNames: ['preset'] as const,
+  registers: [registry]
+});
+
+const jobOutcomes = new client.Counter({
+  name: 'snaptrace_job_outcomes_total',
+  help: 'Processing attempts by how they ended: completed, failed, rejected, cancelled or retrying',
+  labelNames: ['outcome', 'preset'] as const,
+  registers: [registry]
+});
+
+const queueWait = new client.Histogram({
+  name: 'snaptrace_queue_wait_seconds',
+  help: 'Time a job waited for a worker (queue.wait_ms)',
+  buckets: [0.01, 0.05, 0.1, 0.5, 1, 5, 15, 60],
+  registers: [registry]
+});
+
+const queueJobs = new client.Gauge({
+  name: 'snaptrace_queue_jobs',
+  help: 'Jobs in the work queue by state',
+  labelNames: ['state'] as const,
+  registers: [registry]
+});
+
+const webhookAttempts = new client.Counter({
+  name: 'snaptrace_webhook_attempts_total',
+  help: 'Webhook delivery attempts by event and how they ended: succeeded, retrying, failed or interrupted by shutdown',
+  labelNames: ['event', 'outcome'] as const,
+  registers: [registry]
+});
+
+export type ProcessingOutcome = 'completed' | 'failed' | 'rejected' | 'cancelled' | 'retrying';
+
+export function recordUploadReceived(transferMode: string, preset: string, sizeBytes: number, deduplicated: boolean): void {
+  uploadsReceived.inc({ transfer_mode: transferMode, preset, deduplicated: String(deduplicated) });
+  uploadSize.observe({ transfer_mode: transferMode }, sizeBytes);
+}
+
+export function recordValidationFailure(reason: string): void {
+  validationFailures.inc({ reason });
+}
+
+export function recordUploadLimited(reason: string): void {
+  uploadsLimited.inc({ reason });
+}
+
+export function recordScanRejection(reason: string): void {
+  scanRejections.inc({ reason });
+}
+
+export function recordProcessing(labels: { sizeBucket: string; preset: string; outcome: ProcessingOutcome }, durationMs: number, sizeSavedBytes = 0): void {
+  processingDuration.observe({ size_bucket: labels.sizeBucket, preset: labels.preset, outcome: labels.outcome }, durationMs / 1000);
+  jobOutcomes.inc({ outcome: labels.outcome, preset: labels.preset });
+  if (sizeSavedBytes > 0) {
+    bytesSaved.inc({ preset: labels.preset }, sizeSavedBytes);
+  }
+}
+
+// Jobs cancelled while still waiting never reach processMedia
+export function recordJobCancelled(preset: string): void {
+  jobOutcomes.inc({ outcome: 'cancelled', preset });
+}
+
+export function recordQueueWait(waitMs: number): void {
+  queueWait.observe(waitMs / 1000);
+}
+
+export function recordWebhookAttempt(event: string, outcome: 'succeeded' | 'retrying' | 'failed' | 'interrupted'): void {
+  webhookAttempts.inc({ event, outcome });
+}
+
+// Gauges are read from the queue at scrape time rather than tracked on every change
+export function recordQueueStats(stats: QueueStats): void {
+  queueJobs.set({ state: 'ready' }, stats.depth);
+  queueJobs.set({ state: 'running' }, stats.running);
+  queueJobs.set({ state: 'delayed' }, stats.delayed);
+  queueJobs.set({ state: 'dead_lettered' }, stats.deadLettered);
+}
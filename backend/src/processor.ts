@@ -1,68 +1,274 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
 import * as Sentry from '@sentry/node';
+import type { Span } from '@sentry/node';
+import { getStoragePath, removeStoredFile } from './storage';
+import { createJobStore } from './jobStore';
+import { scanMedia } from './scanning';
+import { recordProcessing, recordScanRejection } from './metrics';
+import { config } from './config';
+import { logger } from './logger';
+import type { TraceOrigin } from './tracing';
+import { decodeImage, fitWithin, createThumbnail, pickOutputFormat, encodeImage, OUTPUT_EXTENSIONS, OutputFormat } from './imaging';
+import { TRANSCODE_PRESETS, TranscodePreset, JobStatus, JobResult, WebhookEvent, isTerminalStatus, getSizeBucket, CANCELLED_SPAN_STATUS } from 'snaptrace-shared';
 
 // Processing configuration
-const TRANSCODE_PRESETS = ['web-optimized', 'mobile', 'high-quality', 'thumbnail-only'] as const;
-type TranscodePreset = typeof TRANSCODE_PRESETS[number];
-
-// Simulated processing delays
-const PROCESSING_DELAYS = {
-  optimize: { min: 500, max: 1500 },
-  thumbnail: { min: 300, max: 800 }
-} as const;
-
-// Helper function to simulate processing delay
-const simulateDelay = (min: number, max: number): Promise<void> => {
-  const duration = Math.floor(Math.random() * (max - min) + min);
-  return new Promise(resolve => setTimeout(resolve, duration));
-};
+export { TRANSCODE_PRESETS };
+export const DEFAULT_PRESET: TranscodePreset = 'web-optimized';
+
+export interface PresetParameters {
+  label: string;
+  description: string;
+  maxWidth: number;
+  maxHeight: number;
+  quality: number;
+  outputFormat: OutputFormat | 'auto';
+  thumbnailSize: number;
+  skipOptimization: boolean;
+}
 
-// Helper function to randomly select from array
-const randomChoice = <T>(arr: readonly T[]): T => 
-  arr[Math.floor(Math.random() * arr.length)];
+// Concrete processing parameters for each preset
+export const PRESET_PARAMETERS: Record<TranscodePreset, PresetParameters> = {
+  'web-optimized': {
+    label: 'Web optimized',
+    description: 'Balanced size and quality for the web',
+    maxWidth: 2048,
+    maxHeight: 2048,
+    quality: 80,
+    outputFormat: 'auto',
+    thumbnailSize: 320,
+    skipOptimization: false
+  },
+  'mobile': {
+    label: 'Mobile',
+    description: 'Small JPEGs for phones and slow networks',
+    maxWidth: 1080,
+    maxHeight: 1080,
+    quality: 70,
+    outputFormat: 'image/jpeg',
+    thumbnailSize: 240,
+    skipOptimization: false
+  },
+  'high-quality': {
+    label: 'High quality',
+    description: 'Large output with minimal compression',
+    maxWidth: 4096,
+    maxHeight: 4096,
+    quality: 92,
+    outputFormat: 'auto',
+    thumbnailSize: 480,
+    skipOptimization: false
+  },
+  'thumbnail-only': {
+    label: 'Thumbnail only',
+    description: 'Keep the original and only create a thumbnail',
+    maxWidth: 0,
+    maxHeight: 0,
+    quality: 80,
+    outputFormat: 'image/jpeg',
+    thumbnailSize: 320,
+    skipOptimization: true
+  }
+};
 
 export interface ProcessingJob {
   id: string;
   fileName: string;
   fileType: string;
   fileSize: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  storageKey: string;
+  preset: TranscodePreset;
+  // Set when the job was grouped into a batch (POST /api/batches)
+  batchId?: string;
+  // SHA-256 of the original, and the job whose files an identical upload reuses
+  contentHash?: string;
+  dedupedFrom?: string;
+  // Who uploaded it, for the daily quotas (see rateLimit.ts)
+  clientId?: string;
+  // The user who may see it (see auth.ts)
+  ownerId?: string;
+  // Notified when processing finishes, and the event already sent (see webhooks.ts)
+  callbackUrl?: string;
+  webhookEvent?: WebhookEvent;
+  status: JobStatus;
   createdAt: Date;
   completedAt?: Date;
-  result?: {
-    optimized: boolean;
-    thumbnailCreated: boolean;
-    sizeSaved?: number;
-    error?: string;
+  attempts: number;
+  deadLetteredAt?: Date;
+  // Trace context of the upload.receive span that enqueued the job
+  trace?: TraceOrigin;
+  // Storage keys of the outputs stay on the server
+  result?: JobResult & {
+    outputKey?: string;
+    thumbnailKey?: string;
   };
 }
 
-// Simple in-memory job store
-const jobs = new Map<string, ProcessingJob>();
+// Job persistence, selected by JOB_STORE
+const jobStore = createJobStore();
 
 export function getJob(id: string): ProcessingJob | undefined {
-  return jobs.get(id);
+  return jobStore.get(id);
+}
+
+// Emits 'update' with the job every time it is saved
+export const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+export function saveJob(job: ProcessingJob): void {
+  jobStore.save(job);
+  jobEvents.emit('update', job);
+}
+
+export { isTerminalStatus };
+
+export function listJobs(): ProcessingJob[] {
+  return jobStore.list();
+}
+
+// Throws if jobs can't be saved; returns which store is in use
+export function checkJobStore(): string {
+  jobStore.check();
+  return jobStore.kind;
+}
+
+const storedKeys = (job: ProcessingJob) =>
+  [job.storageKey, job.result?.outputKey, job.result?.thumbnailKey].filter((key): key is string => !!key);
+
+// Remove the job record along with every file it produced. Deduplicated jobs
+// share files, so anything another job still uses is left in place.
+export async function deleteJob(job: ProcessingJob): Promise<void> {
+  const inUse = new Set(jobStore.list().filter((other) => other.id !== job.id).flatMap(storedKeys));
+  await Promise.all(storedKeys(job).filter((key) => !inUse.has(key)).map(removeStoredFile));
+  jobStore.delete(job.id);
+}
+
+// Final state of a job stopped by POST /api/jobs/:jobId/cancel
+export function markCancelled(job: ProcessingJob): void {
+  job.status = 'cancelled';
+  job.completedAt = new Date();
+  job.result = {
+    optimized: false,
+    thumbnailCreated: false,
+    error: 'Cancelled'
+  };
 }
 
-export function createJob(fileName: string, fileType: string, fileSize: number): ProcessingJob {
+export function createJob(
+  fileName: string,
+  fileType: string,
+  fileSize: number,
+  storageKey: string,
+  preset: TranscodePreset = DEFAULT_PRESET,
+  contentHash?: string,
+  clientId?: string,
+  ownerId?: string,
+  callbackUrl?: string
+): ProcessingJob {
   const job: ProcessingJob = {
-    id: Date.now().toString() + '-' + Math.random().toString(36).substr(2, 9),
+    // Unguessable, since a job id is all it takes to address a job
+    id: crypto.randomUUID(),
     fileName,
     fileType,
     fileSize,
+    storageKey,
+    preset,
+    contentHash,
+    clientId,
+    ownerId,
+    callbackUrl,
     status: 'pending',
-    createdAt: new Date()
+    createdAt: new Date(),
+    attempts: 0
   };
   
-  jobs.set(job.id, job);
+  saveJob(job);
   return job;
 }
 
-export async function processMedia(job: ProcessingJob): Promise<void> {
-  console.log(`📸 SnapTrace: Starting processing for ${job.fileName}`);
+// Jobs a previous process left pending or processing. JOB_RECOVERY=resume
+// (default) queues them again from the stored original, JOB_RECOVERY=fail
+// marks them failed.
+export function recoverInterruptedJobs(): ProcessingJob[] {
+  const mode = config.jobs.recovery;
+
+  const resumed: ProcessingJob[] = [];
+
+  for (const job of jobStore.list()) {
+    if (job.status !== 'pending' && job.status !== 'processing') continue;
+
+    if (mode === 'resume' && fs.existsSync(getStoragePath(job.storageKey))) {
+      job.status = 'pending';
+      saveJob(job);
+      resumed.push(job);
+      continue;
+    }
+
+    job.status = 'failed';
+    job.completedAt = new Date();
+    job.result = {
+      optimized: false,
+      thumbnailCreated: false,
+      error: mode === 'resume'
+        ? 'Original upload was missing when the server restarted'
+        : 'Processing was interrupted by a server restart'
+    };
+    saveJob(job);
+  }
+
+  return resumed;
+}
+
+// Jobs still pending or processing when the server shuts down. The file
+// store keeps them as they are for recoverInterruptedJobs on the next start;
+// the memory store goes away with the process, so they are marked failed
+// while anyone following their status can still hear about it.
+export function interruptUnfinishedJobs(): ProcessingJob[] {
+  const unfinished = jobStore.list().filter((job) => job.status === 'pending' || job.status === 'processing');
+  if (jobStore.kind !== 'memory') return unfinished;
+
+  for (const job of unfinished) {
+    job.status = 'failed';
+    job.completedAt = new Date();
+    job.result = {
+      optimized: false,
+      thumbnailCreated: false,
+      error: 'Processing was interrupted by a server shutdown'
+    };
+    saveJob(job);
+  }
+  return unfinished;
+}
+
+// How the queue is running this attempt
+export interface ProcessingContext {
+  attempt: number;
+  maxAttempts: number;
+  queueWaitMs: number;
+  queueDepth: number;
+  // Aborted when the job is cancelled; checked between pipeline stages
+  signal?: AbortSignal;
+}
+
+export class JobCancelledError extends Error {}
+
+function throwIfCancelled(signal: AbortSignal | undefined, span?: Span): void {
+  if (!signal?.aborted) return;
+  span?.setStatus(CANCELLED_SPAN_STATUS);
+  throw new JobCancelledError('Job was cancelled');
+}
+
+const DIRECT_CONTEXT: ProcessingContext = { attempt: 1, maxAttempts: 1, queueWaitMs: 0, queueDepth: 0 };
+
+// Rejects when processing fails so the queue can retry the job
+export async function processMedia(job: ProcessingJob, context: ProcessingContext = DIRECT_CONTEXT): Promise<void> {
+  const log = logger.child({ 'job.id': job.id, 'file.name': job.fileName });
+  log.info('Starting processing', { 'job.attempt': context.attempt, 'job.max_attempts': context.maxAttempts });
   
   // Update job status
   job.status = 'processing';
-  jobs.set(job.id, job);
+  saveJob(job);
 
   await Sentry.startSpan(
     {
@@ -72,61 +278,221 @@ export async function processMedia(job: ProcessingJob): Promise<void> {
         'media.size_bytes': job.fileSize,
         'media.mime_type': job.fileType,
         'media.size_bucket': getSizeBucket(job.fileSize),
-        'job.id': job.id
-      }
+        'media.preset': job.preset,
+        'job.id': job.id,
+        'job.attempt': context.attempt,
+        'job.max_attempts': context.maxAttempts,
+        'queue.wait_ms': context.queueWaitMs,
+        'queue.depth': context.queueDepth
+      },
+      // Explicit link back to the upload that enqueued this job
+      links: job.trace
+        ? [{
+            context: { traceId: job.trace.traceId, spanId: job.trace.spanId, traceFlags: job.trace.traceFlags },
+            attributes: { 'sentry.link.type': 'enqueued_by' }
+          }]
+        : undefined
     },
     async (span) => {
+      const { signal } = context;
+      const startTime = Date.now();
+      const operations: string[] = [];
+      // Outputs written so far, removed again if the job is cancelled
+      const writtenKeys: string[] = [];
+
       try {
-        const startTime = Date.now();
-        const operations: string[] = [];
-        
-        // Simulate image optimization
-        if (job.fileType.startsWith('image/')) {
-          console.log('  🎨 Optimizing image...');
-          await simulateDelay(PROCESSING_DELAYS.optimize.min, PROCESSING_DELAYS.optimize.max);
+
+        // Each pipeline stage is a child span of media.process. Nothing is
+        // decoded until the scan has looked at the raw bytes.
+        const scan = await Sentry.startSpan(
+          { op: 'media.scan', name: 'Scan media' },
+          async (stageSpan) => {
+            const report = await scanMedia(getStoragePath(job.storageKey), job.fileName, job.fileType);
+            stageSpan?.setAttribute('scan.verdict', report.verdict);
+            stageSpan?.setAttribute('scan.scanner', report.scanner);
+            stageSpan?.setAttribute('scan.findings', report.findings);
+            if (report.reason) {
+              stageSpan?.setAttribute('scan.reason', report.reason);
+            }
+            if (report.detectedType) {
+              stageSpan?.setAttribute('scan.detected_mime_type', report.detectedType);
+            }
+            if (report.width && report.height) {
+              stageSpan?.setAttribute('image.width', report.width);
+              stageSpan?.setAttribute('image.height', report.height);
+              stageSpan?.setAttribute('image.pixels', report.width * report.height);
+            }
+            return report;
+          }
+        );
+        operations.push('scan');
+        const scanSummary = { verdict: scan.verdict, reason: scan.reason, scanner: scan.scanner, findings: scan.findings };
+
+        // A rejection is a verdict, not a failure: no retry, no error event
+        if (scan.verdict === 'rejected') {
+          log.warn('Rejected by content scan', { 'scan.reason': scan.reason, 'scan.message': scan.message });
+          span?.setAttribute('processing.operations', operations);
+          span?.setAttribute('result.status', 'rejected');
+          span?.setAttribute('scan.reason', scan.reason ?? '');
+          recordScanRejection(scan.reason ?? 'unknown');
+
+          job.status = 'rejected';
+          job.completedAt = new Date();
+          job.result = {
+            optimized: false,
+            thumbnailCreated: false,
+            scan: scanSummary,
+            error: scan.message
+          };
+          return;
+        }
+
+        throwIfCancelled(signal);
+        const image = await Sentry.startSpan(
+          { op: 'media.decode', name: 'Decode image' },
+          async (stageSpan) => {
+            const decoded = await decodeImage(getStoragePath(job.storageKey));
+            stageSpan?.setAttribute('image.width', decoded.width);
+            stageSpan?.setAttribute('image.height', decoded.height);
+            return decoded;
+          }
+        );
+        const width = image.width;
+        const height = image.height;
+        operations.push('decode');
+
+        const params = PRESET_PARAMETERS[job.preset];
+
+        throwIfCancelled(signal);
+        if (!params.skipOptimization) {
+          log.debug('Optimizing image');
+          Sentry.startSpan(
+            { op: 'media.optimize', name: 'Optimize image' },
+            (stageSpan) => {
+              fitWithin(image, params.maxWidth, params.maxHeight);
+              stageSpan?.setAttribute('image.resized', image.width !== width);
+              stageSpan?.setAttribute('image.output_width', image.width);
+              stageSpan?.setAttribute('image.output_height', image.height);
+            }
+          );
           operations.push('optimize');
-          
-          // Simulate thumbnail generation
-          console.log('  🖼️  Generating thumbnail...');
-          await simulateDelay(PROCESSING_DELAYS.thumbnail.min, PROCESSING_DELAYS.thumbnail.max);
-          operations.push('thumbnail');
         }
-        
-        // Calculate simulated results
-        const optimizationLevel = randomChoice(['low', 'medium', 'high']);
-        const sizeSaved = Math.floor(job.fileSize * (0.2 + Math.random() * 0.3)); // 20-50% reduction
-        const thumbnailCreated = Math.random() > 0.05; // 95% success rate
-        
+
+        throwIfCancelled(signal);
+        log.debug('Generating thumbnail');
+        const thumbnail = Sentry.startSpan(
+          { op: 'media.thumbnail', name: 'Generate thumbnail' },
+          () => createThumbnail(image, params.thumbnailSize)
+        );
+        operations.push('thumbnail');
+
+        const outputFormat = params.outputFormat === 'auto' ? pickOutputFormat(image) : params.outputFormat;
+        const encodedKey = params.skipOptimization
+          ? undefined
+          : `${job.id}-optimized${OUTPUT_EXTENSIONS[outputFormat]}`;
+        const thumbnailKey = `${job.id}-thumbnail.jpg`;
+
+        // The original can stand in for the output when it already has the
+        // preset's dimensions and a format the preset allows
+        const originalFits = image.width === width && image.height === height && (
+          params.outputFormat === 'auto' ? job.fileType in OUTPUT_EXTENSIONS : params.outputFormat === job.fileType
+        );
+
+        throwIfCancelled(signal);
+        const { outputKey, outputSize, thumbnailSize } = await Sentry.startSpan(
+          { op: 'media.encode', name: 'Encode outputs', attributes: { 'image.output_format': outputFormat } },
+          async (stageSpan) => {
+            const thumbnailOutput = await encodeImage(thumbnail, 'image/jpeg', params.quality);
+            await fs.promises.writeFile(getStoragePath(thumbnailKey), thumbnailOutput);
+            writtenKeys.push(thumbnailKey);
+            stageSpan?.setAttribute('image.thumbnail_bytes', thumbnailOutput.length);
+
+            // Without optimization the original file is the output
+            const original = { outputKey: undefined, outputSize: job.fileSize, thumbnailSize: thumbnailOutput.length };
+            if (!encodedKey) {
+              return original;
+            }
+
+            throwIfCancelled(signal, stageSpan);
+            const output = await encodeImage(image, outputFormat, params.quality);
+            stageSpan?.setAttribute('image.output_bytes', output.length);
+
+            // Re-encoding an already compact file can make it bigger (a small
+            // PNG as a JPEG), so keep the original rather than a larger copy
+            const keepOriginal = originalFits && output.length >= job.fileSize;
+            stageSpan?.setAttribute('image.kept_original', keepOriginal);
+            if (keepOriginal) {
+              return original;
+            }
+
+            await fs.promises.writeFile(getStoragePath(encodedKey), output);
+            writtenKeys.push(encodedKey);
+            return { outputKey: encodedKey, outputSize: output.length, thumbnailSize: thumbnailOutput.length };
+          }
+        );
+        operations.push('encode');
+
+        // Real results from the encoded outputs
+        const sizeSaved = Math.max(0, job.fileSize - outputSize);
+        const optimizationLevel = params.skipOptimization ? 'none' : getOptimizationLevel(params.quality);
+
         // Set span attributes for the processing
         span?.setAttribute('processing.operations', operations);
         span?.setAttribute('processing.optimization_level', optimizationLevel);
-        span?.setAttribute('processing.thumbnail_created', thumbnailCreated);
+        span?.setAttribute('processing.thumbnail_created', true);
         span?.setAttribute('processing.duration_ms', Date.now() - startTime);
+        span?.setAttribute('media.width', width);
+        span?.setAttribute('media.height', height);
+        span?.setAttribute('result.output_bytes', outputSize);
+        span?.setAttribute('result.thumbnail_bytes', thumbnailSize);
         span?.setAttribute('result.size_saved_bytes', sizeSaved);
         span?.setAttribute('result.size_reduction_percent', Math.round((sizeSaved / job.fileSize) * 100));
         span?.setAttribute('result.status', 'success');
-        
+
         // Update job with results
         job.status = 'completed';
         job.completedAt = new Date();
         job.result = {
-          optimized: true,
-          thumbnailCreated,
-          sizeSaved
+          optimized: outputSize < job.fileSize,
+          thumbnailCreated: true,
+          sizeSaved,
+          width,
+          height,
+          outputKey,
+          outputFormat: outputKey ? outputFormat : job.fileType,
+          outputSize,
+          outputWidth: image.width,
+          outputHeight: image.height,
+          thumbnailKey,
+          thumbnailSize,
+          scan: scanSummary
         };
         
-        console.log(`✅ SnapTrace: Processing completed for ${job.fileName} (saved ${(sizeSaved / 1024).toFixed(1)}KB)`);
+        log.info('Processing completed', { 'result.size_saved_bytes': sizeSaved });
         
       } catch (error) {
+        // Cancelling is not a failure: clean up, no retry, no error event
+        if (error instanceof JobCancelledError) {
+          log.info('Cancelled processing');
+          await Promise.all(writtenKeys.map(removeStoredFile));
+          span?.setAttribute('processing.operations', operations);
+          span?.setAttribute('result.status', 'cancelled');
+          span?.setStatus(CANCELLED_SPAN_STATUS);
+          markCancelled(job);
+          return;
+        }
+
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`❌ SnapTrace: Processing failed for ${job.fileName}:`, errorMessage);
-        
+        const willRetry = context.attempt < context.maxAttempts;
+        log.error('Processing failed', { error, 'job.will_retry': willRetry });
+
         span?.setAttribute('result.status', 'failed');
         span?.setAttribute('error.message', errorMessage);
+        span?.setAttribute('job.will_retry', willRetry);
         
-        // Update job with error
-        job.status = 'failed';
-        job.completedAt = new Date();
+        // Update job with error; it stays pending while a retry is scheduled
+        job.status = willRetry ? 'pending' : 'failed';
+        job.completedAt = willRetry ? undefined : new Date();
         job.result = {
           optimized: false,
           thumbnailCreated: false,
@@ -134,15 +500,26 @@ export async function processMedia(job: ProcessingJob): Promise<void> {
         };
         
         Sentry.captureException(error);
+        throw error;
       } finally {
-        jobs.set(job.id, job);
+        saveJob(job);
+        recordProcessing(
+          {
+            sizeBucket: getSizeBucket(job.fileSize),
+            preset: job.preset,
+            // Still pending means a retry is scheduled
+            outcome: job.status === 'pending' || job.status === 'processing' ? 'retrying' : job.status
+          },
+          Date.now() - startTime,
+          job.result?.sizeSaved
+        );
       }
     }
   );
 }
 
-function getSizeBucket(fileSize: number): 'small' | 'medium' | 'large' {
-  if (fileSize > 10 * 1024 * 1024) return 'large';
-  if (fileSize > 1024 * 1024) return 'medium';
-  return 'small';
+function getOptimizationLevel(quality: number): 'low' | 'medium' | 'high' {
+  if (quality >= 90) return 'low';
+  if (quality >= 75) return 'medium';
+  return 'high';
 }
\ No newline at end of file
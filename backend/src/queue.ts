@@ -0,0 +1,167 @@
+import { ProcessingJob, processMedia, saveJob, listJobs, markCancelled } from './processor';
+import { recordJobCancelled, recordQueueWait } from './metrics';
+import { captureTraceOrigin, runInTrace } from './tracing';
+import { backoffDelay } from './backoff';
+import { config } from './config';
+import { logger } from './logger';
+
+// Queue configuration
+const {
+  concurrency: QUEUE_CONCURRENCY,
+  maxAttempts: QUEUE_MAX_ATTEMPTS,
+  backoffBaseMs: QUEUE_BACKOFF_BASE_MS,
+  backoffMaxMs: QUEUE_BACKOFF_MAX_MS
+} = config.queue;
+
+interface QueueEntry {
+  job: ProcessingJob;
+  readyAt: number;
+}
+
+// Jobs waiting for a worker, and jobs waiting out a retry backoff
+const ready: QueueEntry[] = [];
+const delayed = new Map<string, NodeJS.Timeout>();
+let running = 0;
+// Set by stopQueue; no job starts after that
+let stopped = false;
+
+// Jobs a worker is processing right now, so they can be cancelled
+const inFlight = new Map<string, { controller: AbortController; done: Promise<void> }>();
+
+export interface QueueStats {
+  concurrency: number;
+  maxAttempts: number;
+  running: number;
+  depth: number;
+  delayed: number;
+  deadLettered: number;
+}
+
+export function getQueueStats(): QueueStats {
+  return {
+    concurrency: QUEUE_CONCURRENCY,
+    maxAttempts: QUEUE_MAX_ATTEMPTS,
+    running,
+    depth: ready.length,
+    delayed: delayed.size,
+    deadLettered: getDeadLetteredJobs().length
+  };
+}
+
+export function getDeadLetteredJobs(): ProcessingJob[] {
+  return listJobs().filter((job) => job.deadLetteredAt);
+}
+
+// Queue a job for processing. Called from inside upload.receive, so the
+// active span is remembered as the job's origin.
+export function enqueueJob(job: ProcessingJob): void {
+  if (!job.trace) {
+    job.trace = captureTraceOrigin();
+    if (job.trace) saveJob(job);
+  }
+
+  ready.push({ job, readyAt: Date.now() });
+  drain();
+}
+
+// Stop a job wherever it is. A waiting job is simply dropped from the queue;
+// a running one stops at its next stage boundary, and this resolves once it has.
+// Resolves false if the job got to the end of its pipeline first.
+export async function cancelJob(job: ProcessingJob): Promise<boolean> {
+  const current = inFlight.get(job.id);
+  if (current) {
+    current.controller.abort();
+    await current.done;
+    return job.status === 'cancelled';
+  }
+
+  const index = ready.findIndex((entry) => entry.job.id === job.id);
+  if (index !== -1) {
+    ready.splice(index, 1);
+  }
+
+  const retry = delayed.get(job.id);
+  if (retry) {
+    clearTimeout(retry);
+    delayed.delete(job.id);
+  }
+
+  markCancelled(job);
+  saveJob(job);
+  recordJobCancelled(job.preset);
+  return true;
+}
+
+// Stop starting jobs and wait up to timeoutMs for the running ones. Jobs
+// still waiting stay pending. Resolves false if the deadline came first.
+export async function stopQueue(timeoutMs: number): Promise<boolean> {
+  stopped = true;
+  for (const retry of delayed.values()) {
+    clearTimeout(retry);
+  }
+  delayed.clear();
+
+  let deadline: NodeJS.Timeout | undefined;
+  const finished = await Promise.race([
+    Promise.all([...inFlight.values()].map((current) => current.done)).then(() => true),
+    new Promise<boolean>((resolve) => {
+      deadline = setTimeout(() => resolve(false), timeoutMs);
+    })
+  ]);
+  clearTimeout(deadline);
+  return finished;
+}
+
+function drain(): void {
+  if (stopped) return;
+  while (running < QUEUE_CONCURRENCY && ready.length > 0) {
+    const entry = ready.shift()!;
+    const controller = new AbortController();
+    running++;
+    const done = runEntry(entry, controller.signal).finally(() => {
+      running--;
+      inFlight.delete(entry.job.id);
+      drain();
+    });
+    inFlight.set(entry.job.id, { controller, done });
+  }
+}
+
+async function runEntry({ job, readyAt }: QueueEntry, signal: AbortSignal): Promise<void> {
+  job.attempts += 1;
+  recordQueueWait(Date.now() - readyAt);
+
+  try {
+    // Continue the trace of the upload that enqueued the job
+    await runInTrace(job.trace, () =>
+      processMedia(job, {
+        attempt: job.attempts,
+        maxAttempts: QUEUE_MAX_ATTEMPTS,
+        queueWaitMs: Date.now() - readyAt,
+        queueDepth: ready.length,
+        signal
+      })
+    );
+  } catch {
+    if (job.attempts < QUEUE_MAX_ATTEMPTS) {
+      scheduleRetry(job);
+    } else {
+      job.deadLetteredAt = new Date();
+      saveJob(job);
+      logger.error('Moved job to dead letter', { 'job.id': job.id, 'file.name': job.fileName, 'job.attempts': job.attempts });
+    }
+  }
+}
+
+function scheduleRetry(job: ProcessingJob): void {
+  if (stopped) return;
+  const delay = backoffDelay(job.attempts, QUEUE_BACKOFF_BASE_MS, QUEUE_BACKOFF_MAX_MS);
+
+  logger.warn('Retrying job', { 'job.id': job.id, 'file.name': job.fileName, 'job.retry_delay_ms': delay });
+
+  delayed.set(job.id, setTimeout(() => {
+    delayed.delete(job.id);
+    ready.push({ job, readyAt: Date.now() });
+    drain();
+  }, delay));
+}
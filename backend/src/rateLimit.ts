@@ -0,0 +1,152 @@
+import { Request } from 'express';
+import { listJobs } from './processor';
+import { config } from './config';
+import { AuthUser } from './auth';
+
+// How much one client may upload. A client is the signed in user or, with
+// AUTH_MODE=none, its IP address. Every request that starts an upload takes a
+// token from the client's bucket, which refills at RATE_LIMIT_PER_MINUTE up
+// to RATE_LIMIT_BURST. The daily quotas count the jobs a client created since
+// midnight UTC and their fileSize, and deleting a job doesn't give them back.
+
+export interface UploadClient {
+  // Stored on jobs as clientId
+  id: string;
+  keyType: 'user' | 'ip';
+}
+
+export interface RateLimitState {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the bucket is full again
+  resetSeconds: number;
+  // Seconds until the next token, when there is none left
+  retryAfterSeconds: number;
+}
+
+export interface QuotaState {
+  allowed: boolean;
+  exceeded?: 'bytes' | 'jobs';
+  bytesUsed: number;
+  bytesLimit: number;
+  jobsUsed: number;
+  jobsLimit: number;
+  // Seconds until the quotas reset at midnight UTC
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface DailyUsage {
+  dayStart: number;
+  bytes: number;
+  jobs: number;
+}
+
+const { requestsPerMinute, burst, dailyBytes, dailyJobs } = config.limits;
+const tokensPerMs = requestsPerMinute / 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A full bucket is the same as no bucket, so those are dropped once there are many
+const MAX_TRACKED_CLIENTS = 10_000;
+const buckets = new Map<string, Bucket>();
+const usage = new Map<string, DailyUsage>();
+
+export function identifyClient(req: Request, user: AuthUser): UploadClient {
+  return config.auth.mode === 'none'
+    ? { id: `ip:${req.ip}`, keyType: 'ip' }
+    : { id: `user:${user.id}`, keyType: 'user' };
+}
+
+function refill(bucket: Bucket, now: number): void {
+  bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * tokensPerMs);
+  bucket.updatedAt = now;
+}
+
+function pruneFullBuckets(now: number): void {
+  for (const [id, bucket] of buckets) {
+    refill(bucket, now);
+    if (bucket.tokens >= burst) buckets.delete(id);
+  }
+}
+
+// Take one token from the client's bucket, if it has one
+export function takeToken(client: UploadClient): RateLimitState {
+  const now = Date.now();
+  if (buckets.size >= MAX_TRACKED_CLIENTS) pruneFullBuckets(now);
+
+  let bucket = buckets.get(client.id);
+  if (bucket) {
+    refill(bucket, now);
+  } else {
+    bucket = { tokens: burst, updatedAt: now };
+    buckets.set(client.id, bucket);
+  }
+
+  const allowed = bucket.tokens >= 1;
+  if (allowed) bucket.tokens -= 1;
+
+  return {
+    allowed,
+    limit: burst,
+    remaining: Math.floor(bucket.tokens),
+    resetSeconds: Math.ceil((burst - bucket.tokens) / tokensPerMs / 1000),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((1 - bucket.tokens) / tokensPerMs / 1000)
+  };
+}
+
+function startOfDay(now: number): number {
+  return now - (now % DAY_MS);
+}
+
+// Today's counters for the client. A client first seen today, e.g. after a
+// restart, starts from the jobs the store still has.
+function getUsage(clientId: string, dayStart: number): DailyUsage {
+  let entry = usage.get(clientId);
+  if (entry?.dayStart === dayStart) return entry;
+
+  if (usage.size >= MAX_TRACKED_CLIENTS) {
+    for (const [id, old] of usage) {
+      if (old.dayStart !== dayStart) usage.delete(id);
+    }
+  }
+
+  const today = listJobs().filter((job) => job.clientId === clientId && job.createdAt.getTime() >= dayStart);
+  entry = {
+    dayStart,
+    bytes: today.reduce((sum, job) => sum + (job.dedupedFrom ? 0 : job.fileSize), 0),
+    jobs: today.length
+  };
+  usage.set(clientId, entry);
+  return entry;
+}
+
+// Whether one more job of sizeBytes fits in the client's daily quotas.
+// Deduplicated jobs count as jobs but store no new bytes.
+export function checkQuota(client: UploadClient, sizeBytes: number): QuotaState {
+  const now = Date.now();
+  const dayStart = startOfDay(now);
+  const { bytes: bytesUsed, jobs: jobsUsed } = getUsage(client.id, dayStart);
+
+  const exceeded = jobsUsed + 1 > dailyJobs ? 'jobs' : bytesUsed + sizeBytes > dailyBytes ? 'bytes' : undefined;
+  return {
+    allowed: !exceeded,
+    exceeded,
+    bytesUsed,
+    bytesLimit: dailyBytes,
+    jobsUsed,
+    jobsLimit: dailyJobs,
+    retryAfterSeconds: Math.ceil((dayStart + DAY_MS - now) / 1000)
+  };
+}
+
+// Count a job the client just created against its daily quotas
+export function chargeQuota(client: UploadClient, sizeBytes: number): void {
+  const entry = getUsage(client.id, startOfDay(Date.now()));
+  entry.jobs += 1;
+  entry.bytes += sizeBytes;
+}
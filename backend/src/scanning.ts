@@ -0,0 +1,291 @@
+import fs from 'fs';
+import { ScanRejectionReason, ScanSummary } from 'snaptrace-shared';
+import { ACCEPTED_MIME_TYPES, detectMimeType, normalizeMimeType } from './upload';
+import { config } from './config';
+
+// Scan limits. Dimensions are read from the file header before anything is
+// decoded, so oversized images never reach the decoder.
+const { maxImageDimension: MAX_IMAGE_DIMENSION, maxImagePixels: MAX_IMAGE_PIXELS } = config.scanning;
+
+// Signatures of other file formats. Found after an image's end marker they
+// mean the file is also a valid archive, document or executable.
+const FOREIGN_SIGNATURES: { name: string; bytes: Buffer }[] = [
+  { name: 'zip', bytes: Buffer.from('PK\x03\x04', 'latin1') },
+  { name: 'zip', bytes: Buffer.from('PK\x05\x06', 'latin1') },
+  { name: 'pdf', bytes: Buffer.from('%PDF-', 'latin1') },
+  { name: 'rar', bytes: Buffer.from('Rar!\x1a\x07', 'latin1') },
+  { name: '7z', bytes: Buffer.from('7z\xbc\xaf\x27\x1c', 'latin1') },
+  { name: 'elf', bytes: Buffer.from('\x7fELF', 'latin1') },
+  { name: 'html', bytes: Buffer.from('<html', 'latin1') },
+  { name: 'html', bytes: Buffer.from('<HTML', 'latin1') }
+];
+
+// Markup that browsers or servers would execute if the file were ever served
+// with the wrong content type. Long enough to be safe to search whole files.
+const SCRIPT_SIGNATURES = ['<script', '<SCRIPT', '<?php', 'javascript:'].map((text) => Buffer.from(text, 'latin1'));
+
+export interface ScanReport extends ScanSummary {
+  message?: string;
+  detectedType?: string;
+  width?: number;
+  height?: number;
+}
+
+// Pluggable content scanner (antivirus, moderation, ...). Runs after the
+// built-in format checks have passed.
+export interface MalwareScanner {
+  readonly name: string;
+  scan(file: { path: string; contents: Buffer; fileName: string }): Promise<{ infected: boolean; signature?: string }>;
+}
+
+// Local stand-in that only recognises the EICAR antivirus test file, so the
+// rejection path can be exercised without a real scanner
+export function createStubScanner(): MalwareScanner {
+  const eicar = Buffer.from('EICAR-STANDARD-ANTIVIRUS-TEST-FILE', 'latin1');
+
+  return {
+    name: 'stub',
+    scan: async ({ contents }) =>
+      contents.includes(eicar) ? { infected: true, signature: 'EICAR-Test-File' } : { infected: false }
+  };
+}
+
+// MEDIA_SCANNER=stub (default) or MEDIA_SCANNER=none
+export function createScanner(): MalwareScanner | undefined {
+  switch (config.scanning.scanner) {
+    case 'stub':
+      return createStubScanner();
+    case 'none':
+      return undefined;
+  }
+}
+
+const scanner = createScanner();
+
+// Width and height straight from the format's header
+export function readImageDimensions(data: Buffer, mimeType: string): { width: number; height: number } | undefined {
+  try {
+    switch (mimeType) {
+      case 'image/png':
+        return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+      case 'image/gif':
+        return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+      case 'image/bmp':
+        return { width: Math.abs(data.readInt32LE(18)), height: Math.abs(data.readInt32LE(22)) };
+      case 'image/jpeg':
+        return readJpegDimensions(data);
+      case 'image/tiff':
+        return readTiffDimensions(data);
+    }
+  } catch {
+    // Truncated header; reported as unreadable below
+  }
+  return undefined;
+}
+
+// Walk the marker segments up to the first start-of-frame
+function readJpegDimensions(data: Buffer): { width: number; height: number } | undefined {
+  let offset = 2;
+  while (offset < data.length) {
+    if (data[offset] !== 0xff) return undefined;
+    const marker = data[offset + 1];
+    offset += 2;
+
+    // Fill bytes and markers without a length field
+    if (marker === 0xff) {
+      offset -= 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) continue;
+
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isStartOfFrame) {
+      return { height: data.readUInt16BE(offset + 3), width: data.readUInt16BE(offset + 5) };
+    }
+    offset += data.readUInt16BE(offset);
+  }
+  return undefined;
+}
+
+// ImageWidth (256) and ImageLength (257) from the first IFD
+function readTiffDimensions(data: Buffer): { width: number; height: number } | undefined {
+  const littleEndian = data.toString('latin1', 0, 2) === 'II';
+  const read16 = (offset: number) => (littleEndian ? data.readUInt16LE(offset) : data.readUInt16BE(offset));
+  const read32 = (offset: number) => (littleEndian ? data.readUInt32LE(offset) : data.readUInt32BE(offset));
+
+  const ifd = read32(4);
+  const entries = read16(ifd);
+  const values: Record<number, number> = {};
+
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    const tag = read16(entry);
+    if (tag === 256 || tag === 257) {
+      values[tag] = read16(entry + 2) === 3 ? read16(entry + 8) : read32(entry + 8);
+    }
+  }
+
+  return values[256] && values[257] ? { width: values[256], height: values[257] } : undefined;
+}
+
+// Where the image data ends according to the format, if it says. This is the
+// first real end, found by walking the format's structure: searching for the
+// last end marker would let a payload hide before one appended after it.
+function findImageEnd(data: Buffer, mimeType: string): number | undefined {
+  try {
+    switch (mimeType) {
+      case 'image/png':
+        return findPngEnd(data);
+      case 'image/jpeg':
+        return findJpegEnd(data);
+      case 'image/gif':
+        return findGifEnd(data);
+      case 'image/bmp':
+        return data.readUInt32LE(2);
+    }
+  } catch {
+    // Truncated structure; there is no end to check past
+  }
+  return undefined;
+}
+
+// Length, type, data and CRC of each chunk, up to the first IEND chunk
+function findPngEnd(data: Buffer): number | undefined {
+  let offset = 8;
+  while (offset + 8 <= data.length) {
+    const next = offset + 12 + data.readUInt32BE(offset);
+    if (data.toString('latin1', offset + 4, offset + 8) === 'IEND') {
+      return next <= data.length ? next : undefined;
+    }
+    offset = next;
+  }
+  return undefined;
+}
+
+// Marker segments and the entropy-coded data after each start-of-scan, up to
+// the end-of-image marker that follows them
+function findJpegEnd(data: Buffer): number | undefined {
+  let offset = 2;
+  while (offset + 1 < data.length) {
+    if (data[offset] !== 0xff) return undefined;
+    const marker = data[offset + 1];
+    offset += 2;
+
+    // Fill bytes and markers without a length field
+    if (marker === 0xff) {
+      offset -= 1;
+      continue;
+    }
+    if (marker === 0xd9) return offset;
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) continue;
+
+    offset += data.readUInt16BE(offset);
+    if (marker !== 0xda) continue;
+
+    // Scan data runs to the next marker; 0xff00 is an escaped byte and
+    // restart markers belong to the scan
+    while (offset + 1 < data.length) {
+      const next = data[offset + 1];
+      if (data[offset] === 0xff && next !== 0x00 && !(next >= 0xd0 && next <= 0xd7)) break;
+      offset++;
+    }
+  }
+  return undefined;
+}
+
+// Header, color tables, then image and extension blocks up to the trailer
+function findGifEnd(data: Buffer): number | undefined {
+  const colorTableSize = (packed: number) => (packed & 0x80 ? 3 * 2 ** ((packed & 0x07) + 1) : 0);
+  // Data sub-blocks, each prefixed with its size, ending with an empty one
+  const skipSubBlocks = (offset: number) => {
+    while (data[offset] !== 0) {
+      if (offset >= data.length) throw new RangeError('GIF data ends inside a block');
+      offset += data[offset] + 1;
+    }
+    return offset + 1;
+  };
+
+  let offset = 13 + colorTableSize(data[10]);
+  while (offset < data.length) {
+    switch (data[offset]) {
+      case 0x3b:
+        return offset + 1;
+      case 0x21:
+        offset = skipSubBlocks(offset + 2);
+        break;
+      case 0x2c:
+        // Descriptor, local color table, LZW minimum code size, image data
+        offset = skipSubBlocks(offset + 10 + colorTableSize(data[offset + 9]) + 1);
+        break;
+      default:
+        return undefined;
+    }
+  }
+  return undefined;
+}
+
+// Inspect the stored file itself: its real format, anything smuggled in
+// alongside the image, its pixel dimensions and finally the scanner hook.
+export async function scanMedia(filePath: string, fileName: string, declaredType: string): Promise<ScanReport> {
+  const contents = await fs.promises.readFile(filePath);
+  const findings: string[] = [];
+  const report = (verdict: ScanReport['verdict'], extra: Partial<ScanReport> = {}): ScanReport => ({
+    verdict,
+    scanner: scanner?.name ?? 'none',
+    findings,
+    ...extra
+  });
+  const reject = (reason: ScanRejectionReason, message: string, extra: Partial<ScanReport> = {}) =>
+    report('rejected', { reason, message, ...extra });
+
+  const detectedType = detectMimeType(contents.subarray(0, 32));
+  if (!detectedType || !ACCEPTED_MIME_TYPES.includes(detectedType)) {
+    return reject('unsupported_format', 'File is not a supported image format', { detectedType });
+  }
+  if (detectedType !== normalizeMimeType(declaredType)) {
+    return reject('format_mismatch', `File contents are ${detectedType}, not ${declaredType}`, { detectedType });
+  }
+
+  const end = findImageEnd(contents, detectedType);
+  if (end !== undefined && end < contents.length) {
+    const trailing = contents.subarray(end);
+    // Zero padding after the image is common and harmless
+    if (trailing.some((byte) => byte !== 0)) {
+      findings.push('trailing_data');
+      const foreign = FOREIGN_SIGNATURES.find(({ bytes }) => trailing.includes(bytes));
+      if (foreign) {
+        findings.push(`embedded_${foreign.name}`);
+        return reject('polyglot', `File also contains ${foreign.name} data after the image`, { detectedType });
+      }
+    }
+  }
+
+  if (SCRIPT_SIGNATURES.some((signature) => contents.includes(signature))) {
+    findings.push('script_markup');
+    return reject('embedded_script', 'File contains script markup', { detectedType });
+  }
+
+  const dimensions = readImageDimensions(contents, detectedType);
+  if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+    return reject('unreadable_dimensions', 'Could not read image dimensions', { detectedType });
+  }
+
+  const { width, height } = dimensions;
+  if (width > MAX_IMAGE_DIMENSION || height > MAX_IMAGE_DIMENSION || width * height > MAX_IMAGE_PIXELS) {
+    return reject(
+      'dimensions_exceeded',
+      `Image is ${width}×${height}; the limit is ${MAX_IMAGE_DIMENSION}px per side and ${MAX_IMAGE_PIXELS / 1_000_000} megapixels`,
+      { detectedType, width, height }
+    );
+  }
+
+  if (scanner) {
+    const verdict = await scanner.scan({ path: filePath, contents, fileName });
+    if (verdict.infected) {
+      findings.push(`signature:${verdict.signature ?? 'unknown'}`);
+      return reject('malware_detected', 'File was flagged by the malware scanner', { detectedType, width, height });
+    }
+  }
+
+  return report('clean', { detectedType, width, height });
+}
@@ -1,91 +1,313 @@
 import './instrument';
+import path from 'path';
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import * as Sentry from '@sentry/node';
-import { createJob, processMedia, getJob } from './processor';
+import type { Span } from '@sentry/node';
+import {
+  ErrorResponse,
+  toFieldIssues,
+  uploadMetadataSchema,
+  createUploadSessionRequestSchema,
+  uploadChunkRequestSchema,
+  listJobsQuerySchema,
+  createBatchRequestSchema,
+  contentLookupRequestSchema,
+  reuseContentRequestSchema,
+  capturedTraceRequestSchema,
+  createWebhookRequestSchema,
+  listWebhookDeliveriesQuerySchema,
+  TRANSCODE_PRESETS,
+  JOB_FILE_VARIANTS,
+  JobFileVariant,
+  UploadAcceptedResponse,
+  UploadSessionResponse,
+  UploadChunkResponse,
+  JobResponse,
+  JobStatusEvent,
+  JobPageResponse,
+  BatchResponse,
+  PresetsResponse,
+  ClientConfigResponse,
+  CurrentUserResponse,
+  QueueResponse,
+  HealthResponse,
+  CapturedTraceResponse,
+  CapturedTraceListResponse,
+  WebhookResponse,
+  WebhookListResponse,
+  WebhookDeliveryResponse,
+  WebhookDeliveryListResponse
+} from 'snaptrace-shared';
+import { createJob, getJob, listJobs, deleteJob, recoverInterruptedJobs, jobEvents, isTerminalStatus, ProcessingJob, DEFAULT_PRESET, PRESET_PARAMETERS } from './processor';
+import { receiveUpload, normalizeMimeType, ReceivedUpload, UploadError, ACCEPTED_MIME_TYPES } from './upload';
+import { removeStoredFile, getStoragePath } from './storage';
+import { enqueueJob, cancelJob, getQueueStats, getDeadLetteredJobs } from './queue';
+import { createSession, getSession, writeChunk, completeSession, UploadSession } from './sessions';
+import { queryJobs, InvalidCursorError } from './jobQuery';
+import { parseRequest } from './validation';
+import { createBatch, getBatchJobs, getBatchStatus, BatchError } from './batches';
+import { findReusableJob, createDeduplicatedJob } from './dedup';
+import { registry, recordUploadReceived, recordValidationFailure, recordUploadLimited, recordQueueStats } from './metrics';
+import { getTelemetryConfig } from './telemetry';
+import { captureEnvelope, getCapturedTrace, listCapturedTraces } from './traceCapture';
+import { config } from './config';
+import { logger } from './logger';
+import { identifyClient, takeToken, checkQuota, chargeQuota, UploadClient } from './rateLimit';
+import { authenticate, getUser, isOwner } from './auth';
+import { isDraining, handleShutdownSignals } from './shutdown';
+import { checkHealth, toHealthStatusCode, HealthProbe } from './health';
+import { toJobResponse } from './jobResponse';
+import { createWebhook, getWebhook, listWebhooks, deleteWebhook, getSigningSecret, listDeliveries, Webhook, WebhookDelivery, WebhookError } from './webhooks';
 
 const app = express();
 
 Sentry.setupExpressErrorHandler(app);
 
-const PORT = process.env.PORT || 3001;
+const PORT = config.port;
 
 // CORS configuration - allow direct connections from frontend
 const corsOptions = {
-  origin: [
-    'http://localhost:5173',  // Vite default port
-    'http://localhost:5174',  // Vite fallback port
-    'http://127.0.0.1:5173',
-    'http://127.0.0.1:5174',
-    process.env.FRONTEND_URL || 'http://localhost:5173'
-  ],
+  origin: config.corsOrigins,
   credentials: true,
-  methods: ['GET', 'POST', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'sentry-trace', 'baggage'],
-  exposedHeaders: ['sentry-trace', 'baggage']
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'sentry-trace', 'baggage', 'X-Chunk-Offset', 'X-File-Name', 'X-File-Type', 'X-File-Size', 'X-Transcode-Preset', 'X-Callback-Url'],
+  exposedHeaders: ['sentry-trace', 'baggage', 'Content-Disposition', 'Content-Length', 'Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset']
 };
 
 // Middleware
 app.use(cors(corsOptions));
 app.use(express.json());
+app.use(authenticate);
 
-interface UploadRequest {
-  fileName: string;
-  fileType: string;
-  fileSize: number;
+// Retry-After for uploads refused while shutting down, roughly a restart
+const RESTART_RETRY_AFTER_SECONDS = 10;
+
+// Metric label for each kind of UploadError
+const UPLOAD_ERROR_REASONS: Record<number, string> = {
+  409: 'incomplete_session',
+  413: 'too_large',
+  415: 'unsupported_content_type'
+};
+
+// The job in :jobId if the signed in user owns it. Other users' jobs get the
+// same 404 as unknown ones, so their ids can't be probed.
+function findOwnedJob(req: Request, res: Response<ErrorResponse>): ProcessingJob | undefined {
+  const job = getJob(req.params.jobId);
+  if (!job || !isOwner(getUser(res), job)) {
+    res.status(404).json({ error: 'Job not found' });
+    return undefined;
+  }
+  return job;
 }
 
-// POST /api/upload - Receive upload and start processing
-app.post('/api/upload', async (req: Request<{}, {}, UploadRequest>, res: Response) => {
-  const { fileName, fileType, fileSize } = req.body;
+function findOwnedSession(req: Request, res: Response<ErrorResponse>): UploadSession | undefined {
+  const session = getSession(req.params.sessionId);
+  if (!session || !isOwner(getUser(res), session)) {
+    res.status(404).json({ error: 'Upload session not found' });
+    return undefined;
+  }
+  return session;
+}
+
+// Refuse to start or continue uploads once shutdown has begun (see shutdown.ts)
+function rejectWhileDraining(_req: Request, res: Response<ErrorResponse>, next: NextFunction): void {
+  if (!isDraining()) {
+    next();
+    return;
+  }
+  res.setHeader('Retry-After', RESTART_RETRY_AFTER_SECONDS);
+  res.status(503).json({ error: 'Server is shutting down, try again shortly', retryAfterSeconds: RESTART_RETRY_AFTER_SECONDS });
+}
+
+// Answer 429 with Retry-After, recording why on the span and in metrics
+function sendLimited(
+  res: Response<ErrorResponse>,
+  span: Span | undefined,
+  reason: 'rate_limited' | 'quota_exceeded',
+  error: string,
+  retryAfterSeconds: number
+): void {
+  recordUploadLimited(reason);
+  span?.setAttribute('ratelimit.limited', true);
+  span?.setAttribute('ratelimit.reason', reason);
+  span?.setAttribute('ratelimit.retry_after_s', retryAfterSeconds);
+  res.setHeader('Retry-After', retryAfterSeconds);
+  res.status(429).json({ error, retryAfterSeconds });
+}
+
+// Take a token for a request that starts an upload and set the RateLimit-*
+// headers. Answers 429 and returns false when the client's bucket is empty.
+function applyRateLimit(client: UploadClient, res: Response<ErrorResponse>, span: Span | undefined): boolean {
+  const state = takeToken(client);
+  res.setHeader('RateLimit-Limit', state.limit);
+  res.setHeader('RateLimit-Remaining', state.remaining);
+  res.setHeader('RateLimit-Reset', state.resetSeconds);
+  span?.setAttribute('ratelimit.client_type', client.keyType);
+  span?.setAttribute('ratelimit.limit', state.limit);
+  span?.setAttribute('ratelimit.remaining', state.remaining);
+  span?.setAttribute('ratelimit.limited', false);
 
-  // Span 2: upload.receive - Backend validates and accepts upload
+  if (!state.allowed) {
+    sendLimited(res, span, 'rate_limited', `Too many uploads, try again in ${state.retryAfterSeconds}s`, state.retryAfterSeconds);
+    return false;
+  }
+  return true;
+}
+
+// Check one more job of sizeBytes against the client's daily quotas. Answers
+// 429 and returns false when it doesn't fit.
+function applyQuota(client: UploadClient, sizeBytes: number, res: Response<ErrorResponse>, span: Span | undefined): boolean {
+  const quota = checkQuota(client, sizeBytes);
+  span?.setAttribute('ratelimit.quota_bytes_used', quota.bytesUsed);
+  span?.setAttribute('ratelimit.quota_jobs_used', quota.jobsUsed);
+  if (quota.allowed) return true;
+
+  const error = quota.exceeded === 'jobs'
+    ? `Daily limit of ${quota.jobsLimit} uploads reached`
+    : `Daily upload quota of ${Math.round(quota.bytesLimit / 1024 / 1024)}MB reached (${Math.round(quota.bytesUsed / 1024 / 1024)}MB used)`;
+  sendLimited(res, span, 'quota_exceeded', error, quota.retryAfterSeconds);
+  return false;
+}
+
+interface AcceptUploadOptions {
+  attributes?: Record<string, string | number>;
+  // Upload sessions take their token when they are created, not when they complete
+  rateLimit?: boolean;
+}
+
+// Span 2: upload.receive - Backend receives, validates and accepts upload.
+// Shared by single-shot uploads and finalized upload sessions.
+async function acceptUpload(
+  req: Request,
+  res: Response<UploadAcceptedResponse | ErrorResponse>,
+  receive: () => Promise<ReceivedUpload>,
+  { attributes = {}, rateLimit = true }: AcceptUploadOptions = {}
+): Promise<void> {
   await Sentry.startSpan(
     {
       op: 'upload.receive',
       name: 'Receive upload',
       attributes: {
-        'file.name': fileName,
-        'file.size_bytes': fileSize,
-        'file.mime_type': fileType,
+        ...attributes,
         'validation.passed': true
       }
     },
     async (span) => {
+      let upload: ReceivedUpload | undefined;
+
+      const reject = async (statusCode: number, reason: string, error: string, body: ErrorResponse = { error }) => {
+        recordValidationFailure(reason);
+        span?.setAttribute('validation.passed', false);
+        span?.setAttribute('validation.error', error);
+        if (upload) {
+          await removeStoredFile(upload.storageKey);
+        }
+        res.status(statusCode).json(body);
+      };
+
+      // Refuse before reading the body when the client is over a limit already
+      const user = getUser(res);
+      const client = identifyClient(req, user);
+      if (rateLimit && !applyRateLimit(client, res, span)) return;
+      if (!applyQuota(client, 0, res, span)) return;
+
       try {
-        // Validate the upload
-        if (!fileName || !fileType || !fileSize) {
-          span?.setAttribute('validation.passed', false);
-          span?.setAttribute('validation.error', 'Missing required fields');
-          res.status(400).json({ error: 'Missing required fields' });
+        upload = await receive();
+        const { fileName, fileType, declaredSize, bytesReceived, detectedType, durationMs } = upload;
+
+        span?.setAttribute('file.name', fileName);
+        span?.setAttribute('file.size_bytes', bytesReceived);
+        span?.setAttribute('file.mime_type', fileType);
+        span?.setAttribute('upload.transfer_mode', upload.transferMode);
+        span?.setAttribute('upload.bytes_received', bytesReceived);
+        span?.setAttribute('upload.duration_ms', durationMs);
+        span?.setAttribute('upload.throughput_bytes_per_sec', Math.round((bytesReceived * 1000) / Math.max(durationMs, 1)));
+        if (detectedType) {
+          span?.setAttribute('file.detected_mime_type', detectedType);
+        }
+
+        // Validate what the client declared, then check it against the bytes we actually received
+        const metadata = uploadMetadataSchema.safeParse({
+          fileName,
+          fileType,
+          fileSize: declaredSize,
+          preset: upload.preset || undefined,
+          callbackUrl: upload.callbackUrl || undefined
+        });
+        if (!metadata.success) {
+          const issues = toFieldIssues(metadata.error);
+          span?.setAttribute('validation.fields', issues.map((issue) => issue.field).join(','));
+          await reject(400, 'invalid_metadata', 'Invalid metadata', { error: 'Invalid request', issues });
+          return;
+        }
+
+        if (bytesReceived !== declaredSize) {
+          await reject(400, 'size_mismatch', 'Size mismatch', { error: `Declared size ${declaredSize} does not match received ${bytesReceived} bytes` });
           return;
         }
 
-        if (fileSize > 50 * 1024 * 1024) { // 50MB limit
-          span?.setAttribute('validation.passed', false);
-          span?.setAttribute('validation.error', 'File too large');
-          res.status(400).json({ error: 'File too large (max 50MB)' });
+        if (detectedType !== normalizeMimeType(fileType)) {
+          await reject(400, 'mime_mismatch', 'MIME type mismatch', { error: `Declared type ${fileType} does not match file contents` });
           return;
         }
 
-        if (!fileType.startsWith('image/')) {
-          span?.setAttribute('validation.passed', false);
-          span?.setAttribute('validation.error', 'Invalid file type');
-          res.status(400).json({ error: 'Only images are supported' });
+        const { preset = DEFAULT_PRESET, callbackUrl } = metadata.data;
+        span?.setAttribute('media.preset', preset);
+        span?.setAttribute('webhook.has_callback', Boolean(callbackUrl));
+        span?.setAttribute('file.sha256', upload.contentHash);
+
+        // Identical content already processed with this preset: keep one copy
+        // and hand back its results instead of processing it again
+        const reusable = findReusableJob(upload.contentHash, preset, user.id);
+        span?.setAttribute('dedup.hit', Boolean(reusable));
+
+        // Now the real size is known; reused content stores no new bytes
+        if (!applyQuota(client, reusable ? 0 : bytesReceived, res, span)) {
+          await removeStoredFile(upload.storageKey);
+          return;
+        }
+
+        if (reusable) {
+          await removeStoredFile(upload.storageKey);
+          const job = createDeduplicatedJob(reusable, metadata.data.fileName, client.id, callbackUrl);
+          chargeQuota(client, 0);
+          span?.setAttribute('job.id', job.id);
+          span?.setAttribute('dedup.source_job_id', job.dedupedFrom ?? reusable.id);
+          span?.setAttribute('dedup.bytes_saved', bytesReceived);
+          recordUploadReceived(upload.transferMode, preset, bytesReceived, true);
+
+          logger.info('Upload is identical to an earlier job, reusing its results', {
+            'job.id': job.id,
+            'file.name': fileName,
+            'dedup.source_job_id': reusable.id
+          });
+          res.json({
+            jobId: job.id,
+            status: 'accepted',
+            message: 'Identical file was already processed',
+            deduplicated: true
+          });
           return;
         }
 
         // Create a job for processing
-        const job = createJob(fileName, fileType, fileSize);
+        const job = createJob(metadata.data.fileName, detectedType, bytesReceived, upload.storageKey, preset, upload.contentHash, client.id, user.id, callbackUrl);
+        chargeQuota(client, bytesReceived);
         span?.setAttribute('job.id', job.id);
 
-        console.log(`📸 SnapTrace: Received upload for ${fileName} (${(fileSize / 1024 / 1024).toFixed(2)}MB)`);
-
-        // Start async processing (Span 3 will be created here)
-        setImmediate(async () => {
-          await processMedia(job);
+        logger.info('Received upload', {
+          'job.id': job.id,
+          'file.name': fileName,
+          'file.size_bytes': bytesReceived,
+          'upload.duration_ms': durationMs
         });
 
+        // Queue async processing (Span 3 will be created by a worker)
+        enqueueJob(job);
+        recordUploadReceived(upload.transferMode, preset, bytesReceived, false);
+        span?.setAttribute('queue.depth', getQueueStats().depth);
+
         // Respond immediately with job ID
         res.json({
           jobId: job.id,
@@ -94,57 +316,603 @@ app.post('/api/upload', async (req: Request<{}, {}, UploadRequest>, res: Respons
         });
 
       } catch (error) {
-        console.error('❌ SnapTrace: Failed to receive upload:', error);
+        if (error instanceof UploadError) {
+          await reject(error.statusCode, UPLOAD_ERROR_REASONS[error.statusCode] ?? 'malformed_upload', error.message);
+          return;
+        }
+
+        logger.error('Failed to receive upload', { error });
         span?.setAttribute('validation.passed', false);
         span?.setAttribute('error.message', error instanceof Error ? error.message : 'Unknown error');
         Sentry.captureException(error);
+        if (upload) {
+          await removeStoredFile(upload.storageKey);
+        }
         res.status(500).json({ error: 'Failed to process upload' });
       }
     }
   );
+}
+
+// POST /api/upload - Receive upload and start processing
+app.post('/api/upload', rejectWhileDraining, async (req: Request, res: Response) => {
+  await acceptUpload(req, res, () => receiveUpload(req));
+});
+
+// POST /api/uploads - Start a resumable upload session
+app.post('/api/uploads', rejectWhileDraining, (req: Request, res: Response<UploadSessionResponse | ErrorResponse>) => {
+  const body = parseRequest(createUploadSessionRequestSchema, req.body, res);
+  if (!body) return;
+
+  const user = getUser(res);
+  const client = identifyClient(req, user);
+  const span = Sentry.getActiveSpan();
+  if (!applyRateLimit(client, res, span) || !applyQuota(client, body.fileSize, res, span)) return;
+
+  try {
+    const session = createSession(body.fileName, body.fileType, body.fileSize, body.preset, body.chunkSize, user.id, body.callbackUrl);
+    res.status(201).json(toSessionResponse(session));
+  } catch (error) {
+    if (error instanceof UploadError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// GET /api/uploads/:sessionId - Which chunks the server already has
+app.get('/api/uploads/:sessionId', (req: Request, res: Response<UploadSessionResponse | ErrorResponse>) => {
+  const session = findOwnedSession(req, res);
+  if (!session) return;
+
+  res.json(toSessionResponse(session));
+});
+
+// PUT /api/uploads/:sessionId/chunks/:index - Store one chunk
+app.put('/api/uploads/:sessionId/chunks/:index', rejectWhileDraining, async (req: Request, res: Response<UploadChunkResponse | ErrorResponse>) => {
+  const session = findOwnedSession(req, res);
+  if (!session) return;
+
+  const chunk = parseRequest(uploadChunkRequestSchema, { index: req.params.index, offset: req.header('x-chunk-offset') }, res);
+  if (!chunk) return;
+
+  try {
+    const { index } = chunk;
+    const bytes = await writeChunk(session, index, chunk.offset, req);
+    res.json({ index, bytesReceived: bytes, receivedChunks: session.receivedChunks.size, totalChunks: session.totalChunks });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    logger.error('Failed to store chunk', { 'upload.session_id': session.id, 'chunk.index': chunk.index, error });
+    Sentry.captureException(error);
+    res.status(500).json({ error: 'Failed to store chunk' });
+  }
+});
+
+// POST /api/uploads/:sessionId/complete - Assemble chunks and start processing
+app.post('/api/uploads/:sessionId/complete', rejectWhileDraining, async (req: Request, res: Response<UploadAcceptedResponse | ErrorResponse>) => {
+  const session = findOwnedSession(req, res);
+  if (!session) return;
+
+  await acceptUpload(req, res, () => completeSession(session), {
+    attributes: {
+      'upload.session_id': session.id,
+      'upload.chunk_count': session.totalChunks,
+      'upload.chunk_size_bytes': session.chunkSize
+    },
+    rateLimit: false
+  });
+});
+
+// HEAD /api/content/:sha256 - Whether identical content was already processed
+// with the given preset, so the client can skip sending it
+app.head('/api/content/:sha256', (req: Request, res: Response) => {
+  const lookup = parseRequest(contentLookupRequestSchema, { ...req.query, sha256: req.params.sha256 }, res);
+  if (!lookup) return;
+
+  const source = findReusableJob(lookup.sha256, lookup.preset ?? DEFAULT_PRESET, getUser(res).id);
+  res.status(source ? 200 : 404).end();
+});
+
+// POST /api/content/:sha256/jobs - Create a job from already processed content
+// without transferring the file
+app.post('/api/content/:sha256/jobs', rejectWhileDraining, (req: Request, res: Response<UploadAcceptedResponse | ErrorResponse>) => {
+  const body = parseRequest(reuseContentRequestSchema, { ...req.body, sha256: req.params.sha256 }, res);
+  if (!body) return;
+
+  const preset = body.preset ?? DEFAULT_PRESET;
+
+  Sentry.startSpan(
+    {
+      op: 'upload.dedupe',
+      name: 'Reuse processed content',
+      attributes: {
+        'file.sha256': body.sha256,
+        'file.size_bytes': body.fileSize,
+        'file.mime_type': body.fileType,
+        'media.preset': preset
+      }
+    },
+    (span) => {
+      const user = getUser(res);
+      const client = identifyClient(req, user);
+      if (!applyRateLimit(client, res, span) || !applyQuota(client, 0, res, span)) return;
+
+      // The declared size and type must match as well as the hash
+      const source = findReusableJob(body.sha256, preset, user.id);
+      if (!source || source.fileSize !== body.fileSize || source.fileType !== normalizeMimeType(body.fileType)) {
+        span?.setAttribute('dedup.hit', false);
+        res.status(404).json({ error: 'No processed file with this content' });
+        return;
+      }
+
+      const job = createDeduplicatedJob(source, body.fileName, client.id, body.callbackUrl);
+      chargeQuota(client, 0);
+      span?.setAttribute('dedup.hit', true);
+      span?.setAttribute('dedup.source_job_id', job.dedupedFrom ?? source.id);
+      span?.setAttribute('dedup.bytes_saved', body.fileSize);
+      recordUploadReceived('none', preset, body.fileSize, true);
+      span?.setAttribute('job.id', job.id);
+
+      logger.info('Reused an earlier job without an upload', {
+        'job.id': job.id,
+        'file.name': body.fileName,
+        'dedup.source_job_id': source.id
+      });
+      res.json({
+        jobId: job.id,
+        status: 'accepted',
+        message: 'Identical file was already processed',
+        deduplicated: true
+      });
+    }
+  );
+});
+
+function toSessionResponse(session: UploadSession): UploadSessionResponse {
+  return {
+    sessionId: session.id,
+    fileName: session.fileName,
+    fileSize: session.fileSize,
+    preset: session.preset,
+    chunkSize: session.chunkSize,
+    totalChunks: session.totalChunks,
+    receivedChunks: [...session.receivedChunks].sort((a, b) => a - b),
+    expiresAt: session.expiresAt.toISOString()
+  };
+}
+
+// GET /api/jobs - Page through jobs, newest first by default
+// Query: status (comma separated), mimeType ("image/png" or "image/*"), batchId,
+// createdAfter, createdBefore (ISO dates), sort, order, limit, cursor
+app.get('/api/jobs', (req: Request, res: Response<JobPageResponse | ErrorResponse>) => {
+  const parsed = parseRequest(listJobsQuerySchema, req.query, res);
+  if (!parsed) return;
+
+  const query = { ...parsed, mimeType: parsed.mimeType && normalizeMimeType(parsed.mimeType) };
+
+  Sentry.startSpan(
+    {
+      name: 'List jobs',
+      op: 'jobs.list',
+      attributes: {
+        'query.sort': query.sort,
+        'query.order': query.order,
+        'query.limit': query.limit,
+        'query.has_cursor': Boolean(query.cursor),
+        'query.filters': [
+          query.status && 'status',
+          query.mimeType && 'mime_type',
+          (query.createdAfter || query.createdBefore) && 'date_range'
+        ].filter(Boolean).join(',')
+      }
+    },
+    (span) => {
+      try {
+        const user = getUser(res);
+        const page = queryJobs(listJobs().filter((job) => isOwner(user, job)), query);
+        span?.setAttribute('result.count', page.jobs.length);
+        span?.setAttribute('result.total', page.total);
+
+        res.json({
+          jobs: page.jobs.map(toJobResponse),
+          total: page.total,
+          nextCursor: page.nextCursor
+        });
+      } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          res.status(400).json({ error: error.message });
+          return;
+        }
+        throw error;
+      }
+    }
+  );
 });
 
 // GET /api/status/:jobId - Check processing status
-app.get('/api/status/:jobId', async (req: Request, res: Response) => {
-  const { jobId } = req.params;
-  
-  const job = getJob(jobId);
-  
-  if (!job) {
-    return res.status(404).json({ error: 'Job not found' });
+app.get('/api/status/:jobId', async (req: Request, res: Response<JobResponse | ErrorResponse>) => {
+  const job = findOwnedJob(req, res);
+  if (!job) return;
+
+  res.json(toJobResponse(job));
+});
+
+// GET /api/jobs/:jobId/events - Stream status transitions as Server-Sent Events
+app.get('/api/jobs/:jobId/events', (req: Request, res: Response) => {
+  const job = findOwnedJob(req, res);
+  if (!job) return;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+
+  let eventId = 0;
+  let lastPayload = '';
+
+  // Each event carries the originating trace so the client can attribute it
+  const send = (current: ProcessingJob) => {
+    const event: JobStatusEvent = {
+      ...toJobResponse(current),
+      trace: { sentryTrace: current.trace?.sentryTrace, baggage: current.trace?.baggage }
+    };
+    const payload = JSON.stringify(event);
+    if (payload === lastPayload) return;
+    lastPayload = payload;
+    res.write(`id: ${++eventId}\nevent: status\ndata: ${payload}\n\n`);
+
+    if (isTerminalStatus(current.status)) {
+      close();
+      res.end();
+    }
+  };
+
+  const onUpdate = (updated: ProcessingJob) => {
+    if (updated.id === job.id) send(updated);
+  };
+
+  // Comments keep idle connections open through proxies
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+
+  const close = () => {
+    clearInterval(heartbeat);
+    jobEvents.off('update', onUpdate);
+  };
+
+  jobEvents.on('update', onUpdate);
+  req.on('close', close);
+  send(job);
+});
+
+// Storage key and content type of one of a job's files
+function resolveJobFile(job: ProcessingJob, variant: JobFileVariant): { key: string; type: string } | undefined {
+  switch (variant) {
+    case 'original':
+      return { key: job.storageKey, type: job.fileType };
+    case 'processed':
+      // thumbnail-only jobs, and jobs whose re-encoded output wasn't smaller,
+      // keep the original as their output
+      if (job.status !== 'completed') return undefined;
+      return job.result?.outputKey
+        ? { key: job.result.outputKey, type: job.result.outputFormat || job.fileType }
+        : { key: job.storageKey, type: job.fileType };
+    case 'thumbnail':
+      return job.result?.thumbnailKey ? { key: job.result.thumbnailKey, type: 'image/jpeg' } : undefined;
+  }
+}
+
+// GET /api/jobs/:jobId/files/:variant - Serve the original, processed or thumbnail image
+app.get('/api/jobs/:jobId/files/:variant', (req: Request, res: Response) => {
+  const job = findOwnedJob(req, res);
+  if (!job) return;
+
+  const variant = req.params.variant as JobFileVariant;
+
+  if (!JOB_FILE_VARIANTS.includes(variant)) {
+    res.status(400).json({ error: `Unknown variant ${variant}` });
+    return;
+  }
+
+  // Never serve what the content scan refused
+  if (job.status === 'rejected') {
+    res.status(403).json({ error: 'File was rejected by the content scan' });
+    return;
+  }
+
+  const file = resolveJobFile(job, variant);
+  if (!file) {
+    res.status(404).json({ error: `No ${variant} file for this job` });
+    return;
+  }
+
+  if (req.query.download !== undefined) {
+    const baseName = job.fileName.replace(/\.[^.]+$/, '');
+    const extension = path.extname(file.key);
+    res.attachment(variant === 'original' ? job.fileName : `${baseName}-${variant}${extension}`);
+  }
+
+  res.type(file.type);
+  res.sendFile(getStoragePath(file.key), (error) => {
+    if (error && !res.headersSent) {
+      res.status(404).json({ error: 'File is no longer available' });
+    }
+  });
+});
+
+// POST /api/jobs/:jobId/cancel - Stop a job that has not finished yet
+app.post('/api/jobs/:jobId/cancel', async (req: Request, res: Response<JobResponse | ErrorResponse>) => {
+  const job = findOwnedJob(req, res);
+  if (!job) return;
+
+  if (isTerminalStatus(job.status)) {
+    res.status(409).json({ error: `Job is already ${job.status}` });
+    return;
+  }
+
+  // A running job may still finish its last stage before it stops
+  if (!(await cancelJob(job))) {
+    res.status(409).json({ error: `Job is already ${job.status}` });
+    return;
+  }
+
+  logger.info('Cancelled job', { 'job.id': job.id });
+  res.json(toJobResponse(job));
+});
+
+// DELETE /api/jobs/:jobId - Remove a job and its stored files
+app.delete('/api/jobs/:jobId', async (req: Request, res: Response) => {
+  const job = findOwnedJob(req, res);
+  if (!job) return;
+
+  if (!isTerminalStatus(job.status)) {
+    res.status(409).json({ error: 'Job is still processing' });
+    return;
   }
 
+  await deleteJob(job);
+  res.status(204).end();
+});
+
+function toBatchResponse(batchId: string, jobs: ProcessingJob[]): BatchResponse {
+  const status = getBatchStatus(jobs);
+  const counts: BatchResponse['counts'] = {};
+  for (const job of jobs) {
+    counts[job.status] = (counts[job.status] ?? 0) + 1;
+  }
+
+  const completedAt = status === 'processing'
+    ? undefined
+    : new Date(Math.max(...jobs.map((job) => job.completedAt?.getTime() ?? 0)));
+
+  return {
+    batchId,
+    status,
+    jobCount: jobs.length,
+    counts,
+    createdAt: jobs[0].createdAt.toISOString(),
+    completedAt: completedAt?.toISOString(),
+    jobs: jobs.map(toJobResponse)
+  };
+}
+
+// POST /api/batches - Group uploaded jobs so they can be followed as one
+app.post('/api/batches', (req: Request, res: Response<BatchResponse | ErrorResponse>) => {
+  const body = parseRequest(createBatchRequestSchema, req.body, res);
+  if (!body) return;
+
+  try {
+    const batch = createBatch(body.jobIds, getUser(res));
+    logger.info('Grouped jobs into a batch', { 'batch.id': batch.id, 'batch.size': batch.jobs.length });
+    res.status(201).json(toBatchResponse(batch.id, getBatchJobs(batch.id)));
+  } catch (error) {
+    if (error instanceof BatchError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// GET /api/batches/:batchId - Aggregate status of every job in a batch
+app.get('/api/batches/:batchId', (req: Request, res: Response<BatchResponse | ErrorResponse>) => {
+  const user = getUser(res);
+  const jobs = getBatchJobs(req.params.batchId).filter((job) => isOwner(user, job));
+
+  if (jobs.length === 0) {
+    res.status(404).json({ error: 'Batch not found' });
+    return;
+  }
+
+  res.json(toBatchResponse(req.params.batchId, jobs));
+});
+
+function toWebhookResponse(webhook: Webhook): WebhookResponse {
+  return {
+    webhookId: webhook.id,
+    url: webhook.url,
+    createdAt: webhook.createdAt.toISOString()
+  };
+}
+
+function toDeliveryResponse(delivery: WebhookDelivery): WebhookDeliveryResponse {
+  return {
+    deliveryId: delivery.id,
+    event: delivery.event,
+    jobId: delivery.jobId,
+    url: delivery.url,
+    source: delivery.source,
+    status: delivery.status,
+    createdAt: delivery.createdAt.toISOString(),
+    nextAttemptAt: delivery.nextAttemptAt?.toISOString(),
+    attempts: delivery.attempts.map((attempt) => ({ ...attempt, attemptedAt: attempt.attemptedAt.toISOString() })),
+    traceId: delivery.trace?.traceId
+  };
+}
+
+// GET /api/webhooks - The account's webhooks and the secret their deliveries are signed with
+app.get('/api/webhooks', (_req: Request, res: Response<WebhookListResponse>) => {
+  const user = getUser(res);
   res.json({
-    jobId: job.id,
-    status: job.status,
-    fileName: job.fileName,
-    fileSize: job.fileSize,
-    createdAt: job.createdAt,
-    completedAt: job.completedAt,
-    result: job.result
+    signingSecret: getSigningSecret(user.id),
+    webhooks: listWebhooks(user.id).map(toWebhookResponse)
   });
 });
 
-// GET /api/health - Health check endpoint
-app.get('/api/health', (_req: Request, res: Response) => {
-  res.json({ 
-    app: 'SnapTrace Backend',
-    status: 'healthy',
-    timestamp: new Date().toISOString()
+// POST /api/webhooks - Notify a URL whenever one of the account's jobs finishes
+app.post('/api/webhooks', (req: Request, res: Response<WebhookResponse | ErrorResponse>) => {
+  const body = parseRequest(createWebhookRequestSchema, req.body, res);
+  if (!body) return;
+
+  try {
+    const webhook = createWebhook(body.url, getUser(res).id);
+    logger.info('Registered webhook', { 'webhook.id': webhook.id, 'user.id': webhook.ownerId });
+    res.status(201).json(toWebhookResponse(webhook));
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      res.status(error.statusCode).json({ error: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+// GET /api/webhooks/deliveries - Delivery log, newest first. Query: jobId, limit
+app.get('/api/webhooks/deliveries', (req: Request, res: Response<WebhookDeliveryListResponse | ErrorResponse>) => {
+  const query = parseRequest(listWebhookDeliveriesQuerySchema, req.query, res);
+  if (!query) return;
+
+  res.json({ deliveries: listDeliveries(getUser(res).id, query).map(toDeliveryResponse) });
+});
+
+// DELETE /api/webhooks/:webhookId - Stop notifying a URL
+app.delete('/api/webhooks/:webhookId', (req: Request, res: Response<ErrorResponse>) => {
+  const webhook = getWebhook(req.params.webhookId);
+  if (!webhook || !isOwner(getUser(res), webhook)) {
+    res.status(404).json({ error: 'Webhook not found' });
+    return;
+  }
+
+  deleteWebhook(webhook.id);
+  res.status(204).end();
+});
+
+// GET /api/me - The signed in user
+app.get('/api/me', (_req: Request, res: Response<CurrentUserResponse>) => {
+  const { id, name } = getUser(res);
+  res.json({ id, name });
+});
+
+// GET /api/presets - Processing profiles clients can choose from
+app.get('/api/presets', (_req: Request, res: Response<PresetsResponse>) => {
+  res.json({
+    defaultPreset: DEFAULT_PRESET,
+    presets: TRANSCODE_PRESETS.map((id) => ({ id, ...PRESET_PARAMETERS[id] }))
   });
 });
 
+// GET /api/config - Upload limits, so clients reject files before sending them
+app.get('/api/config', (_req: Request, res: Response<ClientConfigResponse>) => {
+  res.json({
+    maxUploadBytes: config.uploads.maxBytes,
+    acceptedTypes: ACCEPTED_MIME_TYPES,
+    defaultChunkBytes: config.uploads.defaultChunkBytes,
+    minChunkBytes: config.uploads.minChunkBytes,
+    maxChunkBytes: config.uploads.maxChunkBytes,
+    maxImageDimension: config.scanning.maxImageDimension,
+    maxImagePixels: config.scanning.maxImagePixels,
+    defaultPreset: DEFAULT_PRESET
+  });
+});
+
+// GET /api/queue - Worker and backlog state
+app.get('/api/queue', (_req: Request, res: Response<QueueResponse>) => {
+  const user = getUser(res);
+  res.json({
+    ...getQueueStats(),
+    deadLetteredJobs: getDeadLetteredJobs().filter((job) => isOwner(user, job)).map((job) => ({
+      jobId: job.id,
+      fileName: job.fileName,
+      attempts: job.attempts,
+      deadLetteredAt: job.deadLetteredAt?.toISOString(),
+      error: job.result?.error
+    }))
+  });
+});
+
+// GET /api/metrics - Prometheus text format
+app.get('/api/metrics', async (_req: Request, res: Response) => {
+  recordQueueStats(getQueueStats());
+  res.type(registry.contentType).send(await registry.metrics());
+});
+
+// Dev trace viewer routes, only when envelopes are captured locally (TRACE_CAPTURE)
+if (getTelemetryConfig().traceCapture) {
+  // POST /api/dev/envelopes - The frontend's Sentry transport posts its envelopes here
+  app.post('/api/dev/envelopes', express.raw({ type: () => true, limit: '10mb' }), (req: Request, res: Response<ErrorResponse>) => {
+    try {
+      captureEnvelope(req.body, 'frontend');
+      res.status(200).end();
+    } catch {
+      res.status(400).json({ error: 'Invalid envelope' });
+    }
+  });
+
+  // GET /api/dev/traces - Captured traces, most recently updated first
+  app.get('/api/dev/traces', (_req: Request, res: Response<CapturedTraceListResponse>) => {
+    res.json(listCapturedTraces());
+  });
+
+  // GET /api/dev/traces/:traceId - Every captured span of one trace, frontend and backend
+  app.get('/api/dev/traces/:traceId', (req: Request, res: Response<CapturedTraceResponse | ErrorResponse>) => {
+    const params = parseRequest(capturedTraceRequestSchema, req.params, res);
+    if (!params) return;
+
+    const trace = getCapturedTrace(params.traceId);
+    if (!trace) {
+      res.status(404).json({ error: 'No spans captured for this trace' });
+      return;
+    }
+    res.json(trace);
+  });
+}
+
+// GET /api/health - Every health check, for dashboards and the frontend
+// GET /api/health/live - Liveness probe: event loop and memory
+// GET /api/health/ready - Readiness probe: storage, job store and queue backlog
+// 200 when healthy or degraded, 503 when unhealthy or draining for shutdown
+const healthRoute = (probe: HealthProbe) => async (_req: Request, res: Response<HealthResponse>) => {
+  const health = await checkHealth(probe);
+  res.status(toHealthStatusCode(health.status)).json(health);
+};
+
+app.get('/api/health', healthRoute('all'));
+app.get('/api/health/live', healthRoute('live'));
+app.get('/api/health/ready', healthRoute('ready'));
+
 // Error handling middleware
-app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
-  console.error('❌ SnapTrace Error:', err);
+app.use((err: Error, _req: Request, res: Response<ErrorResponse>, _next: NextFunction) => {
+  logger.error('Unhandled error', { error: err });
   res.status(500).json({ error: 'Internal server error' });
 });
 
 // Start server
-app.listen(PORT, () => {
-  console.log(`\n🚀 SnapTrace Backend`);
-  console.log(`📸 Server running on http://localhost:${PORT}`);
-  console.log(`✨ Ready to receive uploads\n`);
+const server = app.listen(PORT, () => {
+  logger.info('SnapTrace Backend ready to receive uploads', { url: `http://localhost:${PORT}` });
+
+  // Pick up jobs interrupted by the previous shutdown
+  const recovered = recoverInterruptedJobs();
+  if (recovered.length > 0) {
+    logger.info('Resuming interrupted jobs', { 'job.count': recovered.length });
+  }
+  recovered.forEach(enqueueJob);
 });
 
-export default app;
\ No newline at end of file
+handleShutdownSignals(server);
+
+export default app;
@@ -0,0 +1,209 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { TranscodePreset } from 'snaptrace-shared';
+import { STORAGE_DIR } from './storage';
+import { MAX_UPLOAD_BYTES, ReceivedUpload, UploadError, writeToStorage } from './upload';
+import { config } from './config';
+
+// Chunking configuration
+export const DEFAULT_CHUNK_SIZE = config.uploads.defaultChunkBytes;
+const MIN_CHUNK_SIZE = config.uploads.minChunkBytes;
+const MAX_CHUNK_SIZE = config.uploads.maxChunkBytes;
+const SESSION_TTL_MS = config.uploads.sessionTtlMs;
+
+const SESSIONS_DIR = path.join(STORAGE_DIR, 'sessions');
+
+export interface UploadSession {
+  id: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  preset?: TranscodePreset;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: Set<number>;
+  // Set while completeSession stitches the chunks, which mustn't change under it
+  completing: boolean;
+  // The user who may upload to it and complete it
+  ownerId?: string;
+  callbackUrl?: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+// Simple in-memory session store; chunk data lives on disk
+const sessions = new Map<string, UploadSession>();
+
+const getChunkPath = (sessionId: string, index: number) =>
+  path.join(SESSIONS_DIR, sessionId, `${index}.part`);
+
+export function getSession(id: string): UploadSession | undefined {
+  const session = sessions.get(id);
+  if (session && session.expiresAt.getTime() < Date.now()) {
+    void discardSession(id);
+    return undefined;
+  }
+  return session;
+}
+
+export function createSession(
+  fileName: string,
+  fileType: string,
+  fileSize: number,
+  preset?: TranscodePreset,
+  requestedChunkSize: number = DEFAULT_CHUNK_SIZE,
+  ownerId?: string,
+  callbackUrl?: string
+): UploadSession {
+  if (fileSize > MAX_UPLOAD_BYTES) {
+    throw new UploadError(`File too large (max ${MAX_UPLOAD_BYTES / 1024 / 1024}MB)`, 413);
+  }
+
+  const chunkSize = Math.min(Math.max(requestedChunkSize, MIN_CHUNK_SIZE), MAX_CHUNK_SIZE);
+  const createdAt = new Date();
+  const session: UploadSession = {
+    id: crypto.randomUUID(),
+    fileName,
+    fileType,
+    fileSize,
+    preset,
+    chunkSize,
+    totalChunks: Math.ceil(fileSize / chunkSize),
+    receivedChunks: new Set(),
+    completing: false,
+    ownerId,
+    callbackUrl,
+    createdAt,
+    expiresAt: new Date(createdAt.getTime() + SESSION_TTL_MS)
+  };
+
+  fs.mkdirSync(path.join(SESSIONS_DIR, session.id), { recursive: true });
+  sessions.set(session.id, session);
+  return session;
+}
+
+// Store one chunk. Re-sending a chunk that already arrived simply overwrites
+// it, which makes client retries safe.
+export async function writeChunk(
+  session: UploadSession,
+  index: number,
+  offset: number,
+  body: NodeJS.ReadableStream
+): Promise<number> {
+  assertNotCompleting(session);
+  if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+    throw new UploadError(`Chunk index must be between 0 and ${session.totalChunks - 1}`);
+  }
+
+  const expectedOffset = index * session.chunkSize;
+  if (offset !== expectedOffset) {
+    throw new UploadError(`Chunk ${index} must start at offset ${expectedOffset}`, 409);
+  }
+
+  const expectedSize = Math.min(session.chunkSize, session.fileSize - expectedOffset);
+  const chunkPath = getChunkPath(session.id, index);
+  const tempPath = `${chunkPath}.tmp`;
+
+  let bytes = 0;
+  await pipeline(
+    body,
+    async function* (source: AsyncIterable<string | Buffer>) {
+      for await (const data of source) {
+        bytes += Buffer.byteLength(data);
+        if (bytes > expectedSize) {
+          throw new UploadError(`Chunk ${index} exceeds ${expectedSize} bytes`);
+        }
+        yield data;
+      }
+    },
+    fs.createWriteStream(tempPath)
+  ).catch(async (error) => {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  });
+
+  if (bytes !== expectedSize) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw new UploadError(`Chunk ${index} is ${bytes} bytes, expected ${expectedSize}`);
+  }
+
+  // Completion may have started while the chunk was arriving
+  if (session.completing) {
+    await fs.promises.rm(tempPath, { force: true });
+    assertNotCompleting(session);
+  }
+
+  await fs.promises.rename(tempPath, chunkPath);
+  session.receivedChunks.add(index);
+  return bytes;
+}
+
+// Stitch all chunks together into a single storage object. Only one call
+// per session gets this far; a failed one leaves the session to retry.
+export async function completeSession(session: UploadSession): Promise<ReceivedUpload> {
+  assertNotCompleting(session);
+  const missing = getMissingChunks(session);
+  if (missing.length > 0) {
+    throw new UploadError(`Missing ${missing.length} of ${session.totalChunks} chunks`, 409);
+  }
+  session.completing = true;
+
+  const chunks = async function* () {
+    for (let index = 0; index < session.totalChunks; index++) {
+      yield* fs.createReadStream(getChunkPath(session.id, index));
+    }
+  };
+
+  let stored: Awaited<ReturnType<typeof writeToStorage>>;
+  try {
+    stored = await writeToStorage(Readable.from(chunks()), session.fileName);
+  } catch (error) {
+    session.completing = false;
+    throw error;
+  }
+  await discardSession(session.id);
+
+  return {
+    ...stored,
+    fileName: session.fileName,
+    fileType: session.fileType,
+    declaredSize: session.fileSize,
+    preset: session.preset,
+    callbackUrl: session.callbackUrl,
+    transferMode: 'chunked',
+    durationMs: Date.now() - session.createdAt.getTime()
+  };
+}
+
+function assertNotCompleting(session: UploadSession): void {
+  if (session.completing) {
+    throw new UploadError('Upload session is already being completed', 409);
+  }
+}
+
+export function getMissingChunks(session: UploadSession): number[] {
+  const missing: number[] = [];
+  for (let index = 0; index < session.totalChunks; index++) {
+    if (!session.receivedChunks.has(index)) {
+      missing.push(index);
+    }
+  }
+  return missing;
+}
+
+export async function discardSession(id: string): Promise<void> {
+  sessions.delete(id);
+  await fs.promises.rm(path.join(SESSIONS_DIR, id), { recursive: true, force: true });
+}
+
+// Periodically drop sessions that were abandoned mid-upload
+setInterval(() => {
+  for (const session of sessions.values()) {
+    if (session.expiresAt.getTime() < Date.now()) {
+      void discardSession(session.id);
+    }
+  }
+}, 60 * 60 * 1000).unref();
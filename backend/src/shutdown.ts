@@ -0,0 +1,66 @@
+import type { Server } from 'http';
+import * as Sentry from '@sentry/node';
+import { interruptUnfinishedJobs } from './processor';
+import { stopQueue, getQueueStats } from './queue';
+import { stopDeliveries } from './webhooks';
+import { config } from './config';
+import { logger } from './logger';
+
+// Graceful shutdown on SIGTERM or SIGINT. While draining the server keeps
+// answering, so /api/health can report it, but refuses new uploads. Running
+// jobs get up to SHUTDOWN_TIMEOUT_MS to finish; whatever is left is handed to
+// interruptUnfinishedJobs. Webhook deliveries in flight get what is left of the
+// deadline, and those left unfinished are logged. Open connections (e.g. status
+// streams) are closed and Sentry is flushed before the process exits. A second
+// signal exits at once.
+
+// Sentry.close gives up on unsent events after this long
+const SENTRY_FLUSH_TIMEOUT_MS = 2000;
+
+let draining = false;
+
+export function isDraining(): boolean {
+  return draining;
+}
+
+async function shutdown(server: Server, signal: NodeJS.Signals): Promise<void> {
+  const { timeoutMs } = config.shutdown;
+  const deadline = Date.now() + timeoutMs;
+  draining = true;
+  logger.info('Shutting down, waiting for running jobs', {
+    signal,
+    'queue.running': getQueueStats().running,
+    'shutdown.timeout_ms': timeoutMs
+  });
+
+  const finished = await stopQueue(timeoutMs);
+  if (!finished) {
+    logger.warn('Shutdown deadline passed with jobs still running', { 'queue.running': getQueueStats().running });
+  }
+
+  const interrupted = interruptUnfinishedJobs();
+  // Jobs that just finished, or were just interrupted, notify their webhooks
+  const undelivered = await stopDeliveries(Math.max(0, deadline - Date.now()));
+  server.close();
+  server.closeAllConnections();
+
+  logger.info('Shutdown complete', { 'job.count': interrupted.length, 'webhook.undelivered_count': undelivered.length });
+  await Sentry.close(SENTRY_FLUSH_TIMEOUT_MS);
+  process.exit(0);
+}
+
+export function handleShutdownSignals(server: Server): void {
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (draining) {
+      logger.warn('Received another shutdown signal, exiting now', { signal });
+      process.exit(1);
+    }
+    shutdown(server, signal).catch((error) => {
+      logger.error('Shutdown failed', { error });
+      process.exit(1);
+    });
+  };
+
+  process.on('SIGTERM', onSignal);
+  process.on('SIGINT', onSignal);
+}
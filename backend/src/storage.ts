@@ -0,0 +1,23 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from './config';
+
+// Local storage configuration
+export const STORAGE_DIR = config.storageDir;
+
+fs.mkdirSync(STORAGE_DIR, { recursive: true });
+
+// Generate a collision-free key for a newly received file
+export function createStorageKey(fileName: string): string {
+  const extension = path.extname(fileName).toLowerCase().replace(/[^a-z0-9.]/g, '');
+  return `${crypto.randomUUID()}${extension}`;
+}
+
+export function getStoragePath(storageKey: string): string {
+  return path.join(STORAGE_DIR, path.basename(storageKey));
+}
+
+export async function removeStoredFile(storageKey: string): Promise<void> {
+  await fs.promises.rm(getStoragePath(storageKey), { force: true });
+}
@@ -0,0 +1,152 @@
+import fs from 'fs';
+import * as Sentry from '@sentry/node';
+import { context, propagation, trace, SpanStatusCode } from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { detectResources, envDetector, resourceFromAttributes } from '@opentelemetry/resources';
+import { AlwaysOnSampler, BasicTracerProvider, BatchSpanProcessor, ReadableSpan, SpanExporter, SpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { ATTR_SERVICE_NAME, ATTR_SERVICE_VERSION } from '@opentelemetry/semantic-conventions';
+import { SentryPropagator, SentrySampler, SentrySpanProcessor } from '@sentry/opentelemetry';
+import { CANCELLED_SPAN_STATUS, SamplingPolicy, samplingPolicySchema, toFieldIssues } from 'snaptrace-shared';
+import { version } from '../package.json';
+import { config } from './config';
+import { logger } from './logger';
+import { redactAccessToken } from './auth';
+
+export interface TelemetryConfig {
+  serviceName: string;
+  serviceVersion: string;
+  environment: string;
+  // Spans go to Sentry when a DSN is set...
+  sentryDsn?: string;
+  // ...and over OTLP/HTTP when a collector endpoint is set, or both
+  otlpEndpoint?: string;
+  // Keep Sentry envelopes in memory for the dev trace viewer instead of sending them
+  traceCapture: boolean;
+  sampling: SamplingPolicy;
+}
+
+// The OTLP exporter also reads the standard OTEL_EXPORTER_OTLP_* variables
+// for headers and timeouts. Trace capture defaults to local in development
+// when there is no DSN.
+export function getTelemetryConfig(): TelemetryConfig {
+  const { environment, telemetry } = config;
+
+  return {
+    serviceName: telemetry.serviceName,
+    serviceVersion: telemetry.serviceVersion ?? version,
+    environment,
+    sentryDsn: telemetry.sentryDsn,
+    otlpEndpoint: telemetry.otlpEndpoint,
+    traceCapture: telemetry.traceCapture
+      ? telemetry.traceCapture === 'local'
+      : !telemetry.sentryDsn && environment === 'development',
+    sampling: loadSamplingPolicy(environment)
+  };
+}
+
+// SAMPLING_CONFIG points at a JSON policy file (see samplingPolicySchema);
+// TRACES_SAMPLE_RATE and PROFILES_SAMPLE_RATE override its rates. Unset rates
+// keep 10% in production and everything elsewhere. A bad policy stops startup.
+function loadSamplingPolicy(environment: string): SamplingPolicy {
+  const fallbackRate = environment === 'production' ? 0.1 : 1;
+  const { samplingConfigPath, tracesSampleRate, profilesSampleRate } = config.telemetry;
+  const file: Record<string, unknown> = samplingConfigPath ? JSON.parse(fs.readFileSync(samplingConfigPath, 'utf8')) : {};
+
+  const result = samplingPolicySchema.safeParse({
+    defaultRate: fallbackRate,
+    profilesRate: fallbackRate,
+    ...file,
+    ...(tracesSampleRate !== undefined && { defaultRate: tracesSampleRate }),
+    ...(profilesSampleRate !== undefined && { profilesRate: profilesSampleRate })
+  });
+  if (!result.success) {
+    const issues = toFieldIssues(result.error).map((issue) => `${issue.field}: ${issue.message}`).join('; ');
+    throw new Error(`Invalid sampling policy${samplingConfigPath ? ` in ${samplingConfigPath}` : ''}: ${issues}`);
+  }
+  return result.data;
+}
+
+// Runs before the exporting processors, so ?access_token= (see auth.ts) in
+// the HTTP instrumentation's URL attributes never leaves the process
+const accessTokenRedactor: SpanProcessor = {
+  onStart: () => {},
+  onEnd: (span: ReadableSpan) => {
+    for (const [key, value] of Object.entries(span.attributes)) {
+      if (typeof value === 'string' && value.includes('access_token=')) {
+        span.attributes[key] = redactAccessToken(value);
+      }
+    }
+  },
+  forceFlush: async () => {},
+  shutdown: async () => {}
+};
+
+// OTLP has no cancelled status and would read CANCELLED_SPAN_STATUS as an
+// error, so the exporter gets those spans with their status unset. The span
+// itself is shared with Sentry's processor and keeps its status.
+function withCancelledAsUnset(exporter: SpanExporter): SpanExporter {
+  const toExported = (span: ReadableSpan): ReadableSpan =>
+    span.status.code === CANCELLED_SPAN_STATUS.code && span.status.message === CANCELLED_SPAN_STATUS.message
+      ? Object.create(span, { status: { value: { code: SpanStatusCode.UNSET } } })
+      : span;
+
+  return {
+    export: (spans, resultCallback) => exporter.export(spans.map(toExported), resultCallback),
+    shutdown: () => exporter.shutdown(),
+    forceFlush: () => exporter.forceFlush?.() ?? Promise.resolve()
+  };
+}
+
+// Replaces the tracer provider Sentry.init would create (it needs
+// skipOpenTelemetrySetup) so that one provider, with our own resource, feeds
+// every exporter. Sentry's sampler, propagator and context manager are kept,
+// so Sentry.startSpan and trace propagation behave exactly as before.
+export function setupTracing(client: Sentry.NodeClient | undefined, config: TelemetryConfig): BasicTracerProvider {
+  // Captured spans go through Sentry's pipeline, just to a local transport
+  const toSentry = Boolean(config.sentryDsn || config.traceCapture);
+  const spanProcessors: SpanProcessor[] = [accessTokenRedactor];
+  if (toSentry) {
+    spanProcessors.push(new SentrySpanProcessor());
+  }
+  if (config.otlpEndpoint) {
+    spanProcessors.push(new BatchSpanProcessor(withCancelledAsUnset(new OTLPTraceExporter())));
+  }
+
+  // OTEL_RESOURCE_ATTRIBUTES can add to or override these
+  const resource = resourceFromAttributes({
+    [ATTR_SERVICE_NAME]: config.serviceName,
+    [ATTR_SERVICE_VERSION]: config.serviceVersion,
+    'deployment.environment.name': config.environment
+  }).merge(detectResources({ detectors: [envDetector] }));
+
+  const provider = new BasicTracerProvider({
+    sampler: client ? new SentrySampler(client) : new AlwaysOnSampler(),
+    resource,
+    spanProcessors
+  });
+
+  trace.setGlobalTracerProvider(provider);
+  propagation.setGlobalPropagator(new SentryPropagator());
+  context.setGlobalContextManager(new Sentry.SentryContextManager());
+
+  if (client) {
+    // Sentry flushes and shuts down the provider on Sentry.close()
+    client.traceProvider = provider;
+  }
+  if (toSentry) {
+    Sentry.validateOpenTelemetrySetup();
+  } else if (client && config.otlpEndpoint) {
+    // Without a DSN Sentry never sets up its integrations, which would leave
+    // the OTLP-only export without HTTP and Express spans
+    client.getOptions().integrations.forEach((integration) => client.addIntegration(integration));
+  }
+
+  const exporters = [toSentry && (config.traceCapture ? 'local capture' : 'Sentry'), config.otlpEndpoint && `OTLP (${config.otlpEndpoint})`].filter(Boolean);
+  logger.info('Tracing set up', {
+    'telemetry.exporters': exporters.length > 0 ? exporters.join(', ') : 'none',
+    'sampling.default_rate': config.sampling.defaultRate,
+    'sampling.route_rules': config.sampling.routes.length
+  });
+
+  return provider;
+}
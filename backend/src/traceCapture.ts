@@ -0,0 +1,122 @@
+import * as Sentry from '@sentry/node';
+import { parseEnvelope } from '@sentry/core';
+import type { BaseTransportOptions, Event, Transport } from '@sentry/core';
+import { CapturedSpan, CapturedTraceListResponse, CapturedTraceResponse, SpanSource } from 'snaptrace-shared';
+
+// Sentry only sends events when it has a DSN, so capture mode uses this
+// placeholder; nothing is ever sent to it
+export const CAPTURE_DSN = 'http://snaptrace@localhost/0';
+
+// Oldest traces are dropped past this, so a long dev session stays bounded
+const MAX_CAPTURED_TRACES = 200;
+
+// traceId -> spanId -> span, in least recently updated order
+const traces = new Map<string, Map<string, CapturedSpan>>();
+
+// Transport for the backend's own envelopes: everything stays in this process
+export function makeCaptureTransport(options: BaseTransportOptions): Transport {
+  return Sentry.createTransport(options, async (request) => {
+    captureEnvelope(request.body, 'backend');
+    return { statusCode: 200 };
+  });
+}
+
+// Keep the spans of every transaction in an envelope. Errors, profiles and
+// everything else are ignored; the viewer only shows traces.
+export function captureEnvelope(body: string | Uint8Array, source: SpanSource): number {
+  const [, items] = parseEnvelope(body);
+  let captured = 0;
+
+  for (const [header, payload] of items) {
+    if (header.type !== 'transaction') continue;
+    for (const span of toCapturedSpans(payload as Event, source)) {
+      storeSpan(span);
+      captured++;
+    }
+  }
+
+  return captured;
+}
+
+// A transaction is its root span (in contexts.trace) plus its child spans
+function toCapturedSpans(event: Event, source: SpanSource): CapturedSpan[] {
+  const root = event.contexts?.trace;
+  if (!root?.trace_id || !root.span_id || event.start_timestamp === undefined) {
+    return [];
+  }
+
+  const spans: CapturedSpan[] = [{
+    traceId: root.trace_id,
+    spanId: root.span_id,
+    parentSpanId: root.parent_span_id,
+    name: event.transaction ?? '<unnamed>',
+    op: root.op,
+    source,
+    startTimestamp: event.start_timestamp,
+    endTimestamp: event.timestamp ?? event.start_timestamp,
+    status: root.status,
+    attributes: root.data ?? {}
+  }];
+
+  for (const span of event.spans ?? []) {
+    spans.push({
+      traceId: span.trace_id,
+      spanId: span.span_id,
+      parentSpanId: span.parent_span_id,
+      name: span.description ?? '<unnamed>',
+      op: span.op,
+      source,
+      startTimestamp: span.start_timestamp,
+      endTimestamp: span.timestamp ?? span.start_timestamp,
+      status: span.status,
+      attributes: span.data ?? {}
+    });
+  }
+
+  return spans;
+}
+
+function storeSpan(span: CapturedSpan): void {
+  const spans = traces.get(span.traceId) ?? new Map<string, CapturedSpan>();
+  spans.set(span.spanId, span);
+
+  // Re-inserting moves the trace to the end, so eviction takes the stalest
+  traces.delete(span.traceId);
+  traces.set(span.traceId, spans);
+
+  if (traces.size > MAX_CAPTURED_TRACES) {
+    traces.delete(traces.keys().next().value!);
+  }
+}
+
+export function getCapturedTrace(traceId: string): CapturedTraceResponse | undefined {
+  const spans = traces.get(traceId);
+  if (!spans) return undefined;
+
+  return {
+    traceId,
+    spans: [...spans.values()].sort((a, b) => a.startTimestamp - b.startTimestamp)
+  };
+}
+
+// Summaries are named after the earliest span whose parent was not captured,
+// which is the frontend's root when both sides of the trace are present
+export function listCapturedTraces(): CapturedTraceListResponse {
+  return {
+    traces: [...traces.entries()].reverse().map(([traceId, spanMap]) => {
+      const spans = [...spanMap.values()].sort((a, b) => a.startTimestamp - b.startTimestamp);
+      const root = spans.find((span) => !span.parentSpanId || !spanMap.has(span.parentSpanId)) ?? spans[0];
+      const end = Math.max(...spans.map((span) => span.endTimestamp));
+
+      return {
+        traceId,
+        name: root.name,
+        op: root.op,
+        sources: [...new Set(spans.map((span) => span.source))],
+        spanCount: spans.length,
+        startTimestamp: spans[0].startTimestamp,
+        durationMs: Math.round((end - spans[0].startTimestamp) * 1000)
+      };
+    })
+  };
+}
@@ -0,0 +1,33 @@
+import * as Sentry from '@sentry/node';
+
+// Trace context saved with work that runs later, outside the request that
+// started it: a queued job, a webhook delivery
+
+export interface TraceOrigin {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+  sentryTrace?: string;
+  baggage?: string;
+}
+
+// The active span's trace context, if there is an active span
+export function captureTraceOrigin(): TraceOrigin | undefined {
+  const activeSpan = Sentry.getActiveSpan();
+  if (!activeSpan) return undefined;
+
+  const { traceId, spanId, traceFlags } = activeSpan.spanContext();
+  const traceData = Sentry.getTraceData();
+  // getTraceData() is empty when Sentry itself is disabled (OTLP-only export)
+  const sentryTrace = traceData['sentry-trace'] ?? Sentry.spanToTraceHeader(activeSpan);
+  return { traceId, spanId, traceFlags, sentryTrace, baggage: traceData.baggage };
+}
+
+// Deferred work is started by a worker or a timer, so continue the trace it
+// was saved from instead of inheriting whatever context triggered it
+export function runInTrace<T>(origin: TraceOrigin | undefined, callback: () => T): T {
+  if (!origin?.sentryTrace) {
+    return Sentry.startNewTrace(callback);
+  }
+  return Sentry.continueTrace({ sentryTrace: origin.sentryTrace, baggage: origin.baggage }, callback);
+}
@@ -0,0 +1,227 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Request } from 'express';
+import busboy from 'busboy';
+import { createStorageKey, getStoragePath, removeStoredFile } from './storage';
+import { config } from './config';
+
+// Upload limits
+export const MAX_UPLOAD_BYTES = config.uploads.maxBytes;
+const SNIFF_BYTES = 32;
+
+// Magic byte signatures of the image formats we recognise
+const IMAGE_SIGNATURES: { mimeType: string; offset: number; bytes: number[] }[] = [
+  { mimeType: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: 'image/webp', offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  { mimeType: 'image/bmp', offset: 0, bytes: [0x42, 0x4d] },
+  { mimeType: 'image/tiff', offset: 0, bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { mimeType: 'image/tiff', offset: 0, bytes: [0x4d, 0x4d, 0x00, 0x2a] }
+];
+
+// Formats the processing pipeline can decode. Jimp has no WebP decoder, so WebP
+// is recognised only to be refused by the scan as unsupported_format.
+export const ACCEPTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/bmp', 'image/tiff'];
+
+export interface ReceivedUpload {
+  fileName: string;
+  fileType: string;
+  declaredSize: number;
+  bytesReceived: number;
+  detectedType?: string;
+  // SHA-256 of the received bytes, hex encoded
+  contentHash: string;
+  preset?: string;
+  callbackUrl?: string;
+  storageKey: string;
+  transferMode: 'multipart' | 'raw' | 'chunked';
+  durationMs: number;
+}
+
+export class UploadError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+// Identify the real image format from the first bytes of the file
+export function detectMimeType(header: Buffer): string | undefined {
+  return IMAGE_SIGNATURES.find(({ offset, bytes }) =>
+    bytes.every((byte, i) => header[offset + i] === byte)
+  )?.mimeType;
+}
+
+// Browsers occasionally report the non-standard image/jpg
+export function normalizeMimeType(mimeType: string): string {
+  const normalized = mimeType.toLowerCase().split(';')[0].trim();
+  return normalized === 'image/jpg' ? 'image/jpeg' : normalized;
+}
+
+// Counts and hashes bytes as they stream through, keeps the leading bytes for
+// sniffing and aborts the transfer once the upload limit is exceeded
+function createByteMeter() {
+  const meter = { bytes: 0, header: Buffer.alloc(0), hash: crypto.createHash('sha256') };
+
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      meter.bytes += chunk.length;
+      if (meter.bytes > MAX_UPLOAD_BYTES) {
+        callback(new UploadError(`File too large (max ${MAX_UPLOAD_BYTES / 1024 / 1024}MB)`, 413));
+        return;
+      }
+      if (meter.header.length < SNIFF_BYTES) {
+        meter.header = Buffer.concat([meter.header, chunk.subarray(0, SNIFF_BYTES - meter.header.length)]);
+      }
+      meter.hash.update(chunk);
+      callback(null, chunk);
+    }
+  });
+
+  return { stream, meter };
+}
+
+// Write a stream into a new storage object, sniffing its format on the way
+export async function writeToStorage(source: NodeJS.ReadableStream, fileName: string) {
+  const storageKey = createStorageKey(fileName);
+  const { stream, meter } = createByteMeter();
+
+  try {
+    await pipeline(source, stream, fs.createWriteStream(getStoragePath(storageKey)));
+  } catch (error) {
+    await removeStoredFile(storageKey);
+    throw error;
+  }
+
+  return {
+    storageKey,
+    bytesReceived: meter.bytes,
+    detectedType: detectMimeType(meter.header),
+    contentHash: meter.hash.digest('hex')
+  };
+}
+
+// The client went away before sending the whole body
+const interruptedError = () => new UploadError('Upload was interrupted before the body was complete');
+
+// multipart/form-data: metadata fields followed by a single `file` part
+function receiveMultipart(req: Request): Promise<Omit<ReceivedUpload, 'durationMs'>> {
+  return new Promise((resolve, reject) => {
+    const fields: Record<string, string> = {};
+    let received: Promise<Omit<ReceivedUpload, 'durationMs'>> | undefined;
+    let fileStream: Readable | undefined;
+
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({ headers: req.headers, limits: { files: 1, fields: 10 } });
+    } catch (error) {
+      reject(new UploadError(error instanceof Error ? error.message : 'Malformed multipart body'));
+      return;
+    }
+
+    parser.on('field', (name, value) => {
+      fields[name] = value;
+    });
+
+    parser.on('file', (name, stream, info) => {
+      if (name !== 'file' || received) {
+        stream.resume();
+        return;
+      }
+
+      const fileName = fields.fileName || info.filename;
+      fileStream = stream;
+      received = writeToStorage(stream, fileName).then((stored) => ({
+        ...stored,
+        fileName,
+        fileType: fields.fileType || info.mimeType,
+        declaredSize: Number(fields.fileSize) || 0,
+        preset: fields.preset,
+        callbackUrl: fields.callbackUrl,
+        transferMode: 'multipart' as const
+      }));
+
+      // Fail fast (e.g. size limit) instead of waiting for the rest of the body
+      received.catch((error) => {
+        req.unpipe(parser);
+        req.resume();
+        reject(error);
+      });
+    });
+
+    parser.on('error', (error) => {
+      reject(new UploadError(error instanceof Error ? error.message : 'Malformed multipart body'));
+    });
+
+    parser.on('close', () => {
+      if (!received) {
+        reject(new UploadError('Missing file'));
+        return;
+      }
+      received.then(resolve, reject);
+    });
+
+    // busboy sees neither the end nor an error of a body that stops arriving,
+    // so fail the file write ourselves, which also removes the partial file
+    req.once('close', () => {
+      if (req.complete) return;
+      if (fileStream) {
+        fileStream.destroy(interruptedError());
+      } else {
+        reject(interruptedError());
+      }
+    });
+
+    req.pipe(parser);
+  });
+}
+
+// application/octet-stream: metadata travels in X-File-* headers
+async function receiveRaw(req: Request): Promise<Omit<ReceivedUpload, 'durationMs'>> {
+  let fileName: string;
+  try {
+    fileName = decodeURIComponent(req.header('x-file-name') || '');
+  } catch {
+    throw new UploadError('Invalid X-File-Name header');
+  }
+
+  let stored: Awaited<ReturnType<typeof writeToStorage>>;
+  try {
+    stored = await writeToStorage(req, fileName);
+  } catch (error) {
+    if (!(error instanceof UploadError) && !req.complete) {
+      throw interruptedError();
+    }
+    throw error;
+  }
+
+  return {
+    ...stored,
+    fileName,
+    fileType: req.header('x-file-type') || '',
+    declaredSize: Number(req.header('x-file-size') || req.header('content-length')) || 0,
+    preset: req.header('x-transcode-preset'),
+    callbackUrl: req.header('x-callback-url'),
+    transferMode: 'raw'
+  };
+}
+
+// Stream the request body into local storage
+export async function receiveUpload(req: Request): Promise<ReceivedUpload> {
+  const startTime = Date.now();
+  const contentType = req.header('content-type') || '';
+
+  let received: Omit<ReceivedUpload, 'durationMs'>;
+  if (contentType.startsWith('multipart/form-data')) {
+    received = await receiveMultipart(req);
+  } else if (contentType.startsWith('application/octet-stream')) {
+    received = await receiveRaw(req);
+  } else {
+    throw new UploadError('Expected a multipart/form-data or application/octet-stream body', 415);
+  }
+
+  return { ...received, durationMs: Date.now() - startTime };
+}
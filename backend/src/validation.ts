@@ -0,0 +1,17 @@
+import { Response } from 'express';
+import { ErrorResponse, RequestSchema, toFieldIssues } from 'snaptrace-shared';
+
+// Parse request input against its shared schema. On failure responds 400 with
+// every field problem and returns undefined, so routes can bail out early.
+export function parseRequest<T>(
+  schema: RequestSchema<T>,
+  input: unknown,
+  res: Response<ErrorResponse>
+): T | undefined {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    res.status(400).json({ error: 'Invalid request', issues: toFieldIssues(result.error) });
+    return undefined;
+  }
+  return result.data;
+}
@@ -0,0 +1,356 @@
+import net from 'net';
+import crypto from 'crypto';
+import * as Sentry from '@sentry/node';
+import type { Span } from '@sentry/node';
+import { JobStatus, WebhookEvent, WebhookPayload, WebhookDeliveryStatus } from 'snaptrace-shared';
+import { jobEvents, ProcessingJob } from './processor';
+import { toJobResponse } from './jobResponse';
+import { recordWebhookAttempt } from './metrics';
+import { config } from './config';
+import { logger } from './logger';
+import { captureTraceOrigin, runInTrace, TraceOrigin } from './tracing';
+import { backoffDelay } from './backoff';
+
+// Job notifications. When a job finishes processing, its upload's callbackUrl
+// and every webhook its owner registered get a signed POST of the job. Failed
+// deliveries are retried with backoff, and every attempt is kept in a delivery
+// log. Each attempt is a webhook.deliver span in the job's trace, and the
+// request carries its trace headers. Webhooks, the log and pending retries are
+// kept in memory; on shutdown, stopDeliveries waits for attempts in flight and
+// logs the deliveries that are left unfinished.
+
+export interface Webhook {
+  id: string;
+  url: string;
+  ownerId: string;
+  createdAt: Date;
+}
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: Date;
+  durationMs: number;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  event: WebhookEvent;
+  jobId: string;
+  ownerId: string;
+  url: string;
+  source: 'callback' | 'account';
+  status: WebhookDeliveryStatus;
+  createdAt: Date;
+  nextAttemptAt?: Date;
+  attempts: WebhookDeliveryAttempt[];
+  // Fixed when the delivery is created, so every attempt signs the same bytes
+  body: string;
+  // Trace context of the span that finished the job
+  trace?: TraceOrigin;
+}
+
+export class WebhookError extends Error {
+  constructor(message: string, public readonly statusCode: number = 400) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+const { timeoutMs, maxAttempts, backoffBaseMs, backoffMaxMs, allowPrivateUrls } = config.webhooks;
+
+const MAX_WEBHOOKS_PER_USER = 10;
+// Oldest finished deliveries are dropped from the log past this
+const MAX_DELIVERIES = 1000;
+const USER_AGENT = 'SnapTrace-Webhooks/1.0';
+
+const JOB_EVENTS: Partial<Record<JobStatus, WebhookEvent>> = {
+  completed: 'job.completed',
+  failed: 'job.failed',
+  rejected: 'job.rejected'
+};
+
+const signingKey = config.webhooks.signingKey ?? crypto.randomBytes(32).toString('hex');
+if (!config.webhooks.signingKey) {
+  logger.warn('No WEBHOOK_SIGNING_KEY, webhook signing secrets will change on restart');
+}
+
+const webhooks = new Map<string, Webhook>();
+const deliveries = new Map<string, WebhookDelivery>();
+
+// Attempts waiting out their backoff, by delivery id, and attempts under way
+const retries = new Map<string, NodeJS.Timeout>();
+const inFlight = new Set<Promise<void>>();
+// Set by stopDeliveries; failed attempts are not retried after that
+let stopped = false;
+
+// Derived rather than stored, so it survives restarts along with the key
+export function getSigningSecret(ownerId: string): string {
+  return `whsec_${crypto.createHmac('sha256', signingKey).update(`webhook-secret:${ownerId}`).digest('hex')}`;
+}
+
+function sign(ownerId: string, timestamp: string, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', getSigningSecret(ownerId)).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// Only literal hosts are recognised; a public name that resolves to a private
+// address is not caught
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost')) return true;
+
+  if (net.isIPv4(host)) {
+    const [a, b] = host.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+  }
+  if (net.isIPv6(host)) {
+    return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('::ffff:');
+  }
+  return false;
+}
+
+function checkUrl(url: string): void {
+  if (!allowPrivateUrls && isPrivateHost(new URL(url).hostname)) {
+    throw new WebhookError('Webhook URLs on private networks are not allowed');
+  }
+}
+
+export function createWebhook(url: string, ownerId: string): Webhook {
+  checkUrl(url);
+  if (listWebhooks(ownerId).length >= MAX_WEBHOOKS_PER_USER) {
+    throw new WebhookError(`An account can have at most ${MAX_WEBHOOKS_PER_USER} webhooks`, 409);
+  }
+
+  const webhook: Webhook = { id: crypto.randomUUID(), url, ownerId, createdAt: new Date() };
+  webhooks.set(webhook.id, webhook);
+  return webhook;
+}
+
+export function getWebhook(id: string): Webhook | undefined {
+  return webhooks.get(id);
+}
+
+export function listWebhooks(ownerId: string): Webhook[] {
+  return [...webhooks.values()].filter((webhook) => webhook.ownerId === ownerId);
+}
+
+export function deleteWebhook(id: string): void {
+  webhooks.delete(id);
+}
+
+// Newest first
+export function listDeliveries(ownerId: string, { jobId, limit }: { jobId?: string; limit: number }): WebhookDelivery[] {
+  return [...deliveries.values()]
+    .filter((delivery) => delivery.ownerId === ownerId && (!jobId || delivery.jobId === jobId))
+    .reverse()
+    .slice(0, limit);
+}
+
+function remember(delivery: WebhookDelivery): void {
+  deliveries.set(delivery.id, delivery);
+  if (deliveries.size <= MAX_DELIVERIES) return;
+
+  for (const [id, old] of deliveries) {
+    if (old.status !== 'pending') {
+      deliveries.delete(id);
+      return;
+    }
+  }
+}
+
+// The receiver's spans continue from webhook.deliver. traceparent is for
+// receivers instrumented with OpenTelemetry rather than Sentry. Sentry's fetch
+// instrumentation adds sentry-trace and baggage itself, except when Sentry is
+// disabled (OTLP-only export).
+function traceHeaders(span: Span): Record<string, string> {
+  const { traceId, spanId, traceFlags } = span.spanContext();
+  const traceparent = `00-${traceId}-${spanId}-0${traceFlags & 1}`;
+  return Sentry.getTraceData()['sentry-trace']
+    ? { traceparent }
+    : { traceparent, 'sentry-trace': Sentry.spanToTraceHeader(span) };
+}
+
+// Schedule the next attempt on the same backoff as the job queue. Returns the delay.
+function scheduleRetry(delivery: WebhookDelivery): number {
+  const delay = backoffDelay(delivery.attempts.length, backoffBaseMs, backoffMaxMs);
+  delivery.nextAttemptAt = new Date(Date.now() + delay);
+  retries.set(delivery.id, setTimeout(() => {
+    retries.delete(delivery.id);
+    startAttempt(delivery);
+  }, delay));
+  return delay;
+}
+
+function startAttempt(delivery: WebhookDelivery): void {
+  const done = attemptDelivery(delivery).finally(() => inFlight.delete(done));
+  inFlight.add(done);
+}
+
+// Stop retrying and wait up to timeoutMs for the attempts in flight. Returns
+// the deliveries left pending, which are lost with the process, after logging
+// each so they can be redelivered by hand.
+export async function stopDeliveries(timeoutMs: number): Promise<WebhookDelivery[]> {
+  stopped = true;
+  for (const retry of retries.values()) {
+    clearTimeout(retry);
+  }
+  retries.clear();
+
+  let deadline: NodeJS.Timeout | undefined;
+  await Promise.race([
+    Promise.all(inFlight),
+    new Promise<void>((resolve) => {
+      deadline = setTimeout(resolve, timeoutMs);
+    })
+  ]);
+  clearTimeout(deadline);
+
+  const interrupted = [...deliveries.values()].filter((delivery) => delivery.status === 'pending');
+  for (const delivery of interrupted) {
+    logger.warn('Webhook delivery interrupted by shutdown', {
+      'webhook.delivery_id': delivery.id,
+      'webhook.event': delivery.event,
+      'webhook.attempts': delivery.attempts.length,
+      'job.id': delivery.jobId
+    });
+  }
+  return interrupted;
+}
+
+async function attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+  const attempt = delivery.attempts.length + 1;
+  const log = logger.child({ 'webhook.delivery_id': delivery.id, 'job.id': delivery.jobId });
+
+  // Continue the trace of the job, even for a retry started by a timer
+  await runInTrace(delivery.trace, () => Sentry.startSpan(
+    {
+      op: 'webhook.deliver',
+      name: 'Deliver webhook',
+      attributes: {
+        'webhook.delivery_id': delivery.id,
+        'webhook.event': delivery.event,
+        'webhook.source': delivery.source,
+        'webhook.attempt': attempt,
+        'webhook.max_attempts': maxAttempts,
+        'job.id': delivery.jobId
+      }
+    },
+    async (span) => {
+      const startTime = Date.now();
+      const timestamp = String(Math.floor(startTime / 1000));
+      let statusCode: number | undefined;
+      let error: string | undefined;
+
+      try {
+        const url = new URL(delivery.url);
+        span?.setAttribute('server.address', url.hostname);
+        checkUrl(delivery.url);
+
+        const response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': USER_AGENT,
+            'X-SnapTrace-Event': delivery.event,
+            'X-SnapTrace-Delivery': delivery.id,
+            'X-SnapTrace-Timestamp': timestamp,
+            'X-SnapTrace-Signature': sign(delivery.ownerId, timestamp, delivery.body),
+            ...traceHeaders(span)
+          },
+          body: delivery.body,
+          // A redirect could lead anywhere, private networks included
+          redirect: 'manual',
+          signal: AbortSignal.timeout(timeoutMs)
+        });
+        statusCode = response.status;
+        await response.body?.cancel();
+        if (!response.ok) {
+          error = `Responded with ${response.status}`;
+        }
+      } catch (caught) {
+        // fetch reports network errors as "fetch failed" with the reason as its cause
+        const cause = (caught as { cause?: unknown }).cause;
+        const reason = cause instanceof Error ? cause : caught;
+        error = reason instanceof Error ? reason.message : 'Delivery failed';
+      }
+
+      const durationMs = Date.now() - startTime;
+      delivery.attempts.push({ attemptedAt: new Date(startTime), durationMs, statusCode, error });
+      delivery.nextAttemptAt = undefined;
+      if (statusCode !== undefined) {
+        span?.setAttribute('http.response.status_code', statusCode);
+      }
+      span?.setAttribute('webhook.duration_ms', durationMs);
+
+      if (!error) {
+        delivery.status = 'succeeded';
+        span?.setAttribute('webhook.outcome', 'succeeded');
+        recordWebhookAttempt(delivery.event, 'succeeded');
+        log.info('Delivered webhook', { 'webhook.attempt': attempt, 'http.response.status_code': statusCode });
+        return;
+      }
+
+      span?.setStatus({ code: 2, message: 'internal_error' });
+      span?.setAttribute('error.message', error);
+      if (attempt >= maxAttempts) {
+        delivery.status = 'failed';
+        span?.setAttribute('webhook.outcome', 'failed');
+        recordWebhookAttempt(delivery.event, 'failed');
+        log.error('Webhook delivery failed, giving up', { 'webhook.attempt': attempt, 'webhook.error': error });
+      } else if (stopped) {
+        // Stays pending, and stopDeliveries reports it
+        span?.setAttribute('webhook.outcome', 'interrupted');
+        recordWebhookAttempt(delivery.event, 'interrupted');
+      } else {
+        const delay = scheduleRetry(delivery);
+        span?.setAttribute('webhook.outcome', 'retrying');
+        recordWebhookAttempt(delivery.event, 'retrying');
+        log.warn('Webhook delivery failed, retrying', { 'webhook.attempt': attempt, 'webhook.error': error, 'webhook.retry_delay_ms': delay });
+      }
+    }
+  ));
+}
+
+// Runs inside saveJob, so the active span is whatever finished the job:
+// media.process, or upload.receive for a deduplicated upload
+function notifyJobFinished(job: ProcessingJob): void {
+  const event = JOB_EVENTS[job.status];
+  // Jobs from before ownership have nobody to sign for
+  if (!event || job.webhookEvent || !job.ownerId) return;
+
+  // Recorded on the job (and stored with its next save) so that later saves,
+  // e.g. adding it to a batch, don't notify again
+  job.webhookEvent = event;
+
+  const targets = [
+    ...(job.callbackUrl ? [{ url: job.callbackUrl, source: 'callback' as const }] : []),
+    ...listWebhooks(job.ownerId).map((webhook) => ({ url: webhook.url, source: 'account' as const }))
+  ];
+  if (targets.length === 0) return;
+
+  const trace = captureTraceOrigin();
+
+  for (const { url, source } of targets) {
+    const createdAt = new Date();
+    const id = crypto.randomUUID();
+    const payload: WebhookPayload = { id, event, createdAt: createdAt.toISOString(), job: toJobResponse(job) };
+
+    const delivery: WebhookDelivery = {
+      id,
+      event,
+      jobId: job.id,
+      ownerId: job.ownerId,
+      url,
+      source,
+      status: 'pending',
+      createdAt,
+      attempts: [],
+      body: JSON.stringify(payload),
+      trace
+    };
+    remember(delivery);
+    startAttempt(delivery);
+  }
+}
+
+jobEvents.on('update', notifyJobFinished);
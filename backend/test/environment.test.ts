@@ -0,0 +1,57 @@
+import fs from 'fs';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AUTH_HEADERS, RunningProcess, startServer, tempDir } from './helpers';
+
+// The development conveniences need NODE_ENV=development; a deploy that sets
+// nothing runs as production.
+
+describe('without NODE_ENV', () => {
+  let server: RunningProcess;
+  const token = 'a-token-from-the-tokens-file';
+
+  before(async () => {
+    const tokensFile = path.join(tempDir('auth'), 'tokens.json');
+    fs.writeFileSync(tokensFile, JSON.stringify([{ token, userId: 'alice' }]));
+    server = await startServer({ NODE_ENV: undefined, AUTH_TOKENS_FILE: tokensFile });
+  });
+
+  after(async () => {
+    await server?.stop();
+  });
+
+  it('refuses the development token', async () => {
+    assert.equal((await fetch(`${server.url}/api/jobs`, { headers: AUTH_HEADERS })).status, 401);
+    assert.equal((await fetch(`${server.url}/api/jobs`, { headers: { Authorization: `Bearer ${token}` } })).status, 200);
+  });
+
+  it('refuses private webhook URLs', async () => {
+    const response = await fetch(`${server.url}/api/webhooks`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url: 'http://localhost:4319/hook' })
+    });
+    assert.equal(response.status, 400);
+  });
+
+  it('doesn\'t capture traces for the dev trace viewer', async () => {
+    assert.equal((await fetch(`${server.url}/api/dev/traces`)).status, 404);
+  });
+});
+
+describe('without NODE_ENV or a tokens file', () => {
+  let server: RunningProcess;
+
+  before(async () => {
+    server = await startServer({ NODE_ENV: undefined, AUTH_TOKENS_FILE: undefined });
+  });
+
+  after(async () => {
+    await server?.stop();
+  });
+
+  it('refuses every token, including the development one', async () => {
+    assert.equal((await fetch(`${server.url}/api/jobs`, { headers: AUTH_HEADERS })).status, 401);
+  });
+});
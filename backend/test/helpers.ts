@@ -0,0 +1,154 @@
+import fs from 'fs';
+import os from 'os';
+import net from 'net';
+import path from 'path';
+import { spawn, ChildProcess } from 'child_process';
+import { Jimp } from 'jimp';
+
+// Helpers for tests that run the backend, and the stand-ins from scripts/, as
+// real processes on free local ports.
+
+const BACKEND_DIR = path.resolve(__dirname, '..');
+
+export const AUTH_HEADERS = { Authorization: 'Bearer snaptrace-dev-token' };
+
+export interface RunningProcess {
+  url: string;
+  port: number;
+  // Everything the process printed so far, for assertion messages
+  output: () => string;
+  stop: () => Promise<void>;
+}
+
+export function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = net.createServer();
+    probe.once('error', reject);
+    probe.listen(0, () => {
+      const { port } = probe.address() as net.AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+// Removed when the test file's process exits
+const tempDirs: string[] = [];
+process.on('exit', () => {
+  for (const dir of tempDirs) fs.rmSync(dir, { recursive: true, force: true });
+});
+
+export function tempDir(prefix: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), `snaptrace-${prefix}-`));
+  tempDirs.push(dir);
+  return dir;
+}
+
+// Poll until check returns something other than undefined
+export async function waitFor<T>(check: () => T | undefined | Promise<T | undefined>, timeoutMs = 10_000, what = 'condition'): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = await check();
+    if (value !== undefined) return value;
+    if (Date.now() > deadline) throw new Error(`Timed out after ${timeoutMs}ms waiting for ${what}`);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+async function respondsAt(url: string): Promise<true | undefined> {
+  try {
+    await fetch(url, { signal: AbortSignal.timeout(1000) });
+    return true;
+  } catch {
+    return undefined;
+  }
+}
+
+function stopProcess(child: ChildProcess): Promise<void> {
+  if (child.exitCode !== null || child.signalCode !== null) return Promise.resolve();
+  return new Promise((resolve) => {
+    const force = setTimeout(() => child.kill('SIGKILL'), 10_000);
+    child.once('exit', () => {
+      clearTimeout(force);
+      resolve();
+    });
+    child.kill('SIGTERM');
+  });
+}
+
+// Run a TypeScript entry point of the backend and wait until readyPath answers.
+// A variable set to undefined in env is removed from the process's environment.
+async function startProcess(entry: string, env: Record<string, string | undefined>, port: number, readyPath: string): Promise<RunningProcess> {
+  const merged = Object.entries({ ...process.env, ...env }).filter((entry): entry is [string, string] => entry[1] !== undefined);
+  const child = spawn(process.execPath, ['--import', 'tsx', entry], {
+    cwd: BACKEND_DIR,
+    env: Object.fromEntries(merged),
+    stdio: ['ignore', 'pipe', 'pipe']
+  });
+
+  let output = '';
+  child.stdout?.on('data', (chunk: Buffer) => (output += chunk));
+  child.stderr?.on('data', (chunk: Buffer) => (output += chunk));
+
+  const url = `http://localhost:${port}`;
+  try {
+    await waitFor(() => {
+      if (child.exitCode !== null) throw new Error(`${entry} exited with ${child.exitCode}:\n${output}`);
+      return respondsAt(`${url}${readyPath}`);
+    }, 60_000, `${entry} to start`);
+  } catch (error) {
+    await stopProcess(child);
+    throw error;
+  }
+
+  return { url, port, output: () => output, stop: () => stopProcess(child) };
+}
+
+// The backend with its development defaults, files in a fresh STORAGE_DIR
+export async function startServer(env: Record<string, string | undefined> = {}): Promise<RunningProcess> {
+  const port = await freePort();
+  return startProcess('src/server.ts', {
+    NODE_ENV: 'development',
+    LOG_LEVEL: 'warn',
+    STORAGE_DIR: tempDir('storage'),
+    PORT: String(port),
+    ...env
+  }, port, '/api/health/live');
+}
+
+// One of the stand-ins from scripts/, e.g. the OTLP collector
+export async function startScript(script: string, portVariable: string, env: Record<string, string> = {}): Promise<RunningProcess> {
+  const port = await freePort();
+  return startProcess(`scripts/${script}`, { ...env, [portVariable]: String(port) }, port, '/');
+}
+
+export function readJsonLines<T>(file: string): T[] {
+  if (!fs.existsSync(file)) return [];
+  return fs.readFileSync(file, 'utf8').split('\n').filter(Boolean).map((line) => JSON.parse(line) as T);
+}
+
+export async function createPng(width = 32, height = 32): Promise<Buffer> {
+  return new Jimp({ width, height, color: 0x3366ccff }).getBuffer('image/png');
+}
+
+export async function api<T>(server: RunningProcess, route: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(`${server.url}${route}`, {
+    ...init,
+    headers: { ...AUTH_HEADERS, ...(init.body && !(init.body instanceof FormData) && { 'Content-Type': 'application/json' }), ...init.headers }
+  });
+  const body = await response.text();
+  if (!response.ok) {
+    throw new Error(`${init.method ?? 'GET'} ${route} answered ${response.status}: ${body}`);
+  }
+  return (body ? JSON.parse(body) : undefined) as T;
+}
+
+// POST /api/upload as multipart/form-data
+export async function uploadFile(server: RunningProcess, data: Buffer, fields: Record<string, string> = {}): Promise<{ jobId: string }> {
+  const form = new FormData();
+  form.set('fileSize', String(data.length));
+  for (const [name, value] of Object.entries(fields)) {
+    form.set(name, value);
+  }
+  form.set('file', new Blob([data], { type: 'image/png' }), 'test.png');
+  return api(server, '/api/upload', { method: 'POST', body: form });
+}
@@ -0,0 +1,63 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Jimp } from 'jimp';
+import type { JobResponse } from 'snaptrace-shared';
+import { api, AUTH_HEADERS, createPng, RunningProcess, startServer, uploadFile, waitFor } from './helpers';
+
+// An opaque PNG of random pixels, which JPEG compresses far better
+async function createNoisyPng(size: number): Promise<Buffer> {
+  const image = new Jimp({ width: size, height: size });
+  image.scan((_x, _y, index) => {
+    for (let channel = 0; channel < 3; channel++) {
+      image.bitmap.data[index + channel] = Math.floor(Math.random() * 256);
+    }
+    image.bitmap.data[index + 3] = 0xff;
+  });
+  return image.getBuffer('image/png');
+}
+
+describe('web-optimized output', () => {
+  let server: RunningProcess;
+
+  before(async () => {
+    server = await startServer();
+  });
+
+  after(async () => {
+    await server?.stop();
+  });
+
+  const processed = async (data: Buffer) => {
+    const { jobId } = await uploadFile(server, data);
+    return waitFor(async () => {
+      const job = await api<JobResponse>(server, `/api/status/${jobId}`);
+      return job.status === 'completed' || job.status === 'failed' ? job : undefined;
+    }, 20_000, `job ${jobId} to finish`);
+  };
+
+  it('keeps the original when re-encoding would make it bigger', async () => {
+    const original = await createPng(16, 16);
+    const job = await processed(original);
+
+    assert.equal(job.status, 'completed');
+    assert.equal(job.result?.optimized, false);
+    assert.equal(job.result?.outputFormat, 'image/png');
+    assert.equal(job.result?.outputSize, original.length);
+    assert.equal(job.result?.sizeSaved, 0);
+
+    // The processed variant is the original file
+    const response = await fetch(`${server.url}/api/jobs/${job.jobId}/files/processed`, { headers: AUTH_HEADERS });
+    assert.equal(response.headers.get('content-type'), 'image/png');
+    assert.deepEqual(Buffer.from(await response.arrayBuffer()), original);
+  });
+
+  it('uses the re-encoded output when it is smaller', async () => {
+    const original = await createNoisyPng(200);
+    const job = await processed(original);
+
+    assert.equal(job.status, 'completed');
+    assert.equal(job.result?.optimized, true);
+    assert.equal(job.result?.outputFormat, 'image/jpeg');
+    assert.ok((job.result?.outputSize ?? Infinity) < original.length);
+  });
+});
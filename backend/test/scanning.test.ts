@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CapturedTraceResponse, JobResponse } from 'snaptrace-shared';
+import { Jimp } from 'jimp';
+import { api, createPng, RunningProcess, startServer, tempDir, uploadFile, waitFor } from './helpers';
+
+type Scanning = typeof import('../src/scanning');
+
+const EICAR = Buffer.from('X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*', 'latin1');
+// A 1×1 lossless WebP, which the pipeline can't decode
+const WEBP = Buffer.from('UklGRhoAAABXRUJQVlA4TA0AAAAvAAAAEAcQERGIiP4HAA==', 'base64');
+const ZIP = Buffer.from('PK\x03\x04rest of a zip', 'latin1');
+
+// Each format's end marker: an empty IEND chunk, JPEG's EOI, the GIF trailer
+const END_MARKERS = {
+  'image/png': Buffer.from('0000000049454e44ae426082', 'hex'),
+  'image/jpeg': Buffer.from([0xff, 0xd9]),
+  'image/gif': Buffer.from([0x3b])
+};
+
+describe('scanMedia', () => {
+  let scanning: Scanning;
+  let dir: string;
+  let png: Buffer;
+  let images: Record<keyof typeof END_MARKERS, Buffer>;
+
+  before(async () => {
+    // storage.ts creates STORAGE_DIR when it is loaded
+    dir = tempDir('scan');
+    process.env.STORAGE_DIR = dir;
+    process.env.MEDIA_SCANNER = 'stub';
+    scanning = await import('../src/scanning');
+    png = await createPng(40, 30);
+    // Some noise, so the JPEG's scan data contains escaped 0xff bytes
+    const noisy = new Jimp({ width: 40, height: 30, color: 0x3366ccff });
+    noisy.scan((_x, _y, index) => {
+      noisy.bitmap.data[index] = Math.floor(Math.random() * 256);
+    });
+    images = {
+      'image/png': png,
+      'image/jpeg': await noisy.getBuffer('image/jpeg'),
+      'image/gif': await noisy.getBuffer('image/gif')
+    };
+  });
+
+  async function scan(contents: Buffer, declaredType = 'image/png') {
+    const file = path.join(dir, `${Math.random().toString(36).slice(2)}.bin`);
+    await fs.promises.writeFile(file, contents);
+    return scanning.scanMedia(file, 'test.png', declaredType);
+  }
+
+  it('passes a clean image and reports its dimensions', async () => {
+    const report = await scan(png);
+    assert.equal(report.verdict, 'clean');
+    assert.equal(report.scanner, 'stub');
+    assert.equal(report.detectedType, 'image/png');
+    assert.deepEqual([report.width, report.height], [40, 30]);
+    assert.deepEqual(report.findings, []);
+  });
+
+  it('ignores zero padding after the image', async () => {
+    assert.equal((await scan(Buffer.concat([png, Buffer.alloc(64)]))).verdict, 'clean');
+  });
+
+  it('rejects formats it can\'t process', async () => {
+    assert.equal((await scan(Buffer.from('just some text'), 'image/png')).reason, 'unsupported_format');
+
+    const webp = await scan(WEBP, 'image/webp');
+    assert.equal(webp.reason, 'unsupported_format');
+    assert.equal(webp.detectedType, 'image/webp');
+  });
+
+  it('rejects contents that don\'t match the declared type', async () => {
+    const report = await scan(png, 'image/jpeg');
+    assert.equal(report.verdict, 'rejected');
+    assert.equal(report.reason, 'format_mismatch');
+  });
+
+  it('rejects an archive appended to the image', async () => {
+    const report = await scan(Buffer.concat([png, ZIP]));
+    assert.equal(report.reason, 'polyglot');
+    assert.deepEqual(report.findings, ['trailing_data', 'embedded_zip']);
+  });
+
+  for (const type of Object.keys(END_MARKERS) as (keyof typeof END_MARKERS)[]) {
+    it(`finds where a ${type} really ends`, async () => {
+      const image = images[type];
+      assert.equal((await scan(image, type)).verdict, 'clean');
+
+      // Another end marker after the payload doesn't make it part of the image
+      const report = await scan(Buffer.concat([image, ZIP, END_MARKERS[type]]), type);
+      assert.equal(report.reason, 'polyglot');
+      assert.deepEqual(report.findings, ['trailing_data', 'embedded_zip']);
+    });
+  }
+
+  it('rejects script markup anywhere in the file', async () => {
+    const report = await scan(Buffer.concat([png, Buffer.from('<script>alert(1)</script>', 'latin1')]));
+    assert.equal(report.reason, 'embedded_script');
+    assert.ok(report.findings.includes('script_markup'));
+  });
+
+  it('rejects dimensions over the limits from the header alone', async () => {
+    // Claim 20000×20000 in the IHDR chunk without any pixel data to match
+    const bomb = Buffer.from(png);
+    bomb.writeUInt32BE(20_000, 16);
+    bomb.writeUInt32BE(20_000, 20);
+
+    const report = await scan(bomb);
+    assert.equal(report.reason, 'dimensions_exceeded');
+    assert.deepEqual([report.width, report.height], [20_000, 20_000]);
+  });
+
+  it('runs the scanner hook, which the stub fails on the EICAR test file', async () => {
+    const report = await scan(Buffer.concat([png, EICAR]));
+    assert.equal(report.reason, 'malware_detected');
+    assert.ok(report.findings.includes('signature:EICAR-Test-File'));
+
+    const stub = scanning.createStubScanner();
+    assert.deepEqual(await stub.scan({ path: '', contents: EICAR, fileName: 'eicar.com' }), { infected: true, signature: 'EICAR-Test-File' });
+    assert.deepEqual(await stub.scan({ path: '', contents: png, fileName: 'clean.png' }), { infected: false });
+  });
+});
+
+describe('content scan during processing', () => {
+  let server: RunningProcess;
+
+  before(async () => {
+    server = await startServer({ MEDIA_SCANNER: 'stub' });
+  });
+
+  after(async () => {
+    await server?.stop();
+  });
+
+  it('ends a flagged upload in the rejected status, with a media.scan span', async () => {
+    const { jobId } = await uploadFile(server, Buffer.concat([await createPng(24, 24), EICAR]));
+    const job = await waitFor(async () => {
+      const current = await api<JobResponse>(server, `/api/status/${jobId}`);
+      return current.status === 'pending' || current.status === 'processing' ? undefined : current;
+    }, 15_000, 'the job to finish');
+
+    assert.equal(job.status, 'rejected');
+    assert.equal(job.attempts, 1);
+    assert.equal(job.result?.scan?.verdict, 'rejected');
+    assert.equal(job.result?.scan?.reason, 'malware_detected');
+
+    const trace = await waitFor(async () => {
+      const captured = await api<CapturedTraceResponse>(server, `/api/dev/traces/${job.traceId}`).catch(() => undefined);
+      return captured?.spans.some((span) => span.op === 'media.scan') ? captured : undefined;
+    }, 10_000, 'the media.scan span');
+    const scanSpan = trace.spans.find((span) => span.op === 'media.scan');
+    const processSpan = trace.spans.find((span) => span.op === 'media.process');
+    assert.equal(scanSpan?.parentSpanId, processSpan?.spanId);
+    assert.equal(scanSpan?.attributes['scan.verdict'], 'rejected');
+    assert.equal(scanSpan?.attributes['scan.reason'], 'malware_detected');
+    assert.equal(scanSpan?.attributes['scan.scanner'], 'stub');
+  });
+});
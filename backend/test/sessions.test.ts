@@ -0,0 +1,71 @@
+import fs from 'fs';
+import path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { tempDir } from './helpers';
+
+type Sessions = typeof import('../src/sessions');
+
+const DATA = Buffer.from('0123456789');
+
+describe('completing an upload session', () => {
+  let sessions: Sessions;
+  let dir: string;
+
+  before(async () => {
+    // storage.ts creates STORAGE_DIR when it is loaded
+    dir = tempDir('sessions');
+    process.env.STORAGE_DIR = dir;
+    sessions = await import('../src/sessions');
+  });
+
+  // A one-chunk session, since chunks are at least MIN_CHUNK_BYTES
+  async function uploadedSession() {
+    const session = sessions.createSession('test.png', 'image/png', DATA.length);
+    await sessions.writeChunk(session, 0, 0, Readable.from([DATA]));
+    return session;
+  }
+
+  const refused = { statusCode: 409, message: 'Upload session is already being completed' };
+
+  it('completes a session only once when asked twice', async () => {
+    const session = await uploadedSession();
+    const first = sessions.completeSession(session);
+    await assert.rejects(sessions.completeSession(session), refused);
+
+    const upload = await first;
+    assert.equal(upload.bytesReceived, DATA.length);
+    assert.equal(sessions.getSession(session.id), undefined);
+  });
+
+  it('refuses chunk writes once completing has started', async () => {
+    const session = await uploadedSession();
+    const completing = sessions.completeSession(session);
+    await assert.rejects(sessions.writeChunk(session, 0, 0, Readable.from([Buffer.alloc(DATA.length)])), refused);
+    assert.equal((await completing).bytesReceived, DATA.length);
+  });
+
+  it('drops a chunk that was still arriving when completing started', async () => {
+    const session = sessions.createSession('test.png', 'image/png', DATA.length);
+    const body = new PassThrough();
+    const writing = sessions.writeChunk(session, 0, 0, body);
+    body.write(DATA);
+
+    session.completing = true;
+    body.end();
+    await assert.rejects(writing, refused);
+
+    assert.equal(session.receivedChunks.size, 0);
+    const stored = await fs.promises.readdir(path.join(dir, 'sessions', session.id));
+    assert.deepEqual(stored, []);
+  });
+
+  it('lets a session be completed again after a failed attempt', async () => {
+    const session = await uploadedSession();
+    // The stored chunk disappears, so stitching fails
+    await fs.promises.rm(path.join(dir, 'sessions', session.id, '0.part'));
+    await assert.rejects(sessions.completeSession(session));
+    assert.equal(session.completing, false);
+  });
+});
@@ -0,0 +1,130 @@
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CapturedSpan, CapturedTraceResponse, JobResponse } from 'snaptrace-shared';
+import { api, createPng, readJsonLines, RunningProcess, startScript, startServer, tempDir, uploadFile, waitFor } from './helpers';
+
+// OTLP export against scripts/otlp-collector.ts, which records every span it
+// receives along with its resource attributes.
+
+interface CollectedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  status?: { code?: number; message?: string };
+  resource: Record<string, unknown>;
+  attributes: Record<string, unknown>;
+}
+
+const OTLP_ENV = {
+  OTEL_SERVICE_NAME: 'snaptrace-test',
+  SERVICE_VERSION: '9.9.9',
+  OTEL_RESOURCE_ATTRIBUTES: 'team=media',
+  // Export every batch right away instead of every 5 seconds
+  OTEL_BSP_SCHEDULE_DELAY: '100'
+};
+
+describe('OTLP trace export', () => {
+  let collector: RunningProcess;
+  let collected: () => CollectedSpan[];
+  const servers: RunningProcess[] = [];
+  let imageSize = 16;
+
+  before(async () => {
+    const output = path.join(tempDir('otlp'), 'spans.jsonl');
+    collector = await startScript('otlp-collector.ts', 'COLLECTOR_PORT', { COLLECTOR_OUTPUT: output });
+    collected = () => readJsonLines<CollectedSpan>(output);
+  });
+
+  after(async () => {
+    await Promise.all([collector?.stop(), ...servers.map((server) => server.stop())]);
+  });
+
+  async function startExportingServer(env: Record<string, string>) {
+    const server = await startServer({ ...OTLP_ENV, OTEL_EXPORTER_OTLP_ENDPOINT: collector.url, ...env });
+    servers.push(server);
+    return server;
+  }
+
+  // Upload an image and wait for its processing spans to reach the collector
+  async function uploadAndCollect(server: RunningProcess) {
+    const { jobId } = await uploadFile(server, await createPng(imageSize++));
+    const spans = await waitFor(() => {
+      const forJob = collected().filter((span) => span.attributes['job.id'] === jobId);
+      const ops = forJob.map((span) => span.attributes['sentry.op']);
+      return ops.includes('upload.receive') && ops.includes('media.process') ? forJob : undefined;
+    }, 20_000, `the spans of job ${jobId}`);
+
+    const byOp = (op: string) => spans.find((span) => span.attributes['sentry.op'] === op) as CollectedSpan;
+    return { jobId, receive: byOp('upload.receive'), process: byOp('media.process') };
+  }
+
+  it('exports over OTLP alone, with the configured resource attributes', async () => {
+    const server = await startExportingServer({ TRACE_CAPTURE: 'off' });
+    const { jobId, receive, process } = await uploadAndCollect(server);
+
+    for (const span of [receive, process]) {
+      assert.equal(span.resource['service.name'], 'snaptrace-test');
+      assert.equal(span.resource['service.version'], '9.9.9');
+      assert.equal(span.resource['deployment.environment.name'], 'development');
+      assert.equal(span.resource.team, 'media');
+    }
+
+    // media.process continues the upload's trace
+    const job = await api<JobResponse>(server, `/api/status/${jobId}`);
+    assert.equal(receive.traceId, job.traceId);
+    assert.equal(process.traceId, job.traceId);
+    assert.equal(process.attributes['media.preset'], 'web-optimized');
+  });
+
+  it('exports the same spans to OTLP and to Sentry', async () => {
+    const server = await startExportingServer({ TRACE_CAPTURE: 'local' });
+    const { receive, process } = await uploadAndCollect(server);
+
+    // Sentry's side, through the local capture transport
+    const captured = await waitFor(async () => {
+      const trace = await api<CapturedTraceResponse>(server, `/api/dev/traces/${receive.traceId}`).catch(() => undefined);
+      const ops = trace?.spans.map((span) => span.op) ?? [];
+      return ops.includes('upload.receive') && ops.includes('media.process') ? trace : undefined;
+    }, 20_000, 'the captured trace');
+
+    for (const exported of [receive, process]) {
+      const span = captured?.spans.find((candidate: CapturedSpan) => candidate.spanId === exported.spanId);
+      assert.ok(span, `${exported.name} was captured with the same span id`);
+      assert.equal(span.traceId, exported.traceId);
+      assert.equal(span.name, exported.name);
+      assert.equal(span.parentSpanId, exported.parentSpanId);
+      for (const key of ['job.id', 'file.size_bytes', 'media.size_bytes', 'media.preset']) {
+        assert.equal(span.attributes[key], exported.attributes[key], `${exported.name} ${key}`);
+      }
+    }
+  });
+
+  it('exports cancelled spans to OTLP with their status unset, not as errors', async () => {
+    const server = await startExportingServer({ TRACE_CAPTURE: 'local' });
+    // Large enough that processing is still under way when it is cancelled
+    const { jobId } = await uploadFile(server, await createPng(3000, 3000));
+    await waitFor(async () => {
+      const job = await api<JobResponse>(server, `/api/status/${jobId}`);
+      return job.status === 'processing' ? job : undefined;
+    }, 10_000, 'processing to start');
+    const cancelled = await api<JobResponse>(server, `/api/jobs/${jobId}/cancel`, { method: 'POST' });
+    assert.equal(cancelled.status, 'cancelled');
+
+    const exported = await waitFor(
+      () => collected().find((span) => span.attributes['job.id'] === jobId && span.attributes['sentry.op'] === 'media.process'),
+      20_000,
+      'the media.process span'
+    );
+    assert.equal(exported.attributes['result.status'], 'cancelled');
+    assert.ok(!exported.status?.code, `status code ${exported.status?.code}`);
+
+    // Sentry still gets its cancelled status
+    const captured = await waitFor(async () => {
+      const trace = await api<CapturedTraceResponse>(server, `/api/dev/traces/${exported.traceId}`).catch(() => undefined);
+      return trace?.spans.find((span) => span.op === 'media.process');
+    }, 20_000, 'the captured media.process span');
+    assert.equal(captured.status, 'cancelled');
+  });
+});
@@ -0,0 +1,212 @@
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type {
+  CapturedTraceResponse,
+  JobResponse,
+  WebhookDeliveryListResponse,
+  WebhookDeliveryResponse,
+  WebhookListResponse,
+  WebhookPayload,
+  WebhookResponse
+} from 'snaptrace-shared';
+import { api, createPng, freePort, readJsonLines, RunningProcess, startScript, startServer, tempDir, uploadFile, waitFor } from './helpers';
+
+// Job notifications against scripts/webhook-receiver.ts, which checks each
+// delivery's signature and records it with its headers.
+
+interface ReceivedDelivery {
+  status: number;
+  signature: 'valid' | 'invalid' | 'stale' | 'unchecked';
+  headers: Record<string, string | undefined>;
+  payload: WebhookPayload;
+}
+
+const BACKOFF_BASE_MS = 200;
+const MAX_ATTEMPTS = 3;
+
+describe('webhooks', () => {
+  let server: RunningProcess;
+  let signingSecret: string;
+  const receivers: RunningProcess[] = [];
+  let imageSize = 16;
+
+  before(async () => {
+    server = await startServer({
+      WEBHOOK_SIGNING_KEY: 'test-signing-key-that-is-long-enough',
+      WEBHOOK_BACKOFF_BASE_MS: String(BACKOFF_BASE_MS),
+      WEBHOOK_BACKOFF_MAX_MS: String(BACKOFF_BASE_MS * 10),
+      WEBHOOK_MAX_ATTEMPTS: String(MAX_ATTEMPTS),
+      WEBHOOK_TIMEOUT_MS: '2000'
+    });
+    ({ signingSecret } = await api<WebhookListResponse>(server, '/api/webhooks'));
+  });
+
+  after(async () => {
+    await Promise.all([server?.stop(), ...receivers.map((receiver) => receiver.stop())]);
+  });
+
+  // A receiver that answers the first `failures` deliveries with a 500
+  async function startReceiver(failures = 0) {
+    const output = path.join(tempDir('webhooks'), 'deliveries.jsonl');
+    const receiver = await startScript('webhook-receiver.ts', 'WEBHOOK_RECEIVER_PORT', {
+      WEBHOOK_SECRET: signingSecret,
+      WEBHOOK_RECEIVER_FAIL: String(failures),
+      WEBHOOK_RECEIVER_OUTPUT: output
+    });
+    receivers.push(receiver);
+    return { url: `${receiver.url}/hook`, received: () => readJsonLines<ReceivedDelivery>(output) };
+  }
+
+  // Each test uploads a different image, so none is deduplicated against another
+  const upload = async (fields: Record<string, string> = {}) => (await uploadFile(server, await createPng(imageSize++), fields)).jobId;
+
+  const deliveriesOf = async (jobId: string) =>
+    (await api<WebhookDeliveryListResponse>(server, `/api/webhooks/deliveries?jobId=${jobId}`)).deliveries;
+
+  const settledDelivery = (jobId: string, timeoutMs = 15_000) =>
+    waitFor(async () => {
+      const [delivery] = await deliveriesOf(jobId);
+      return delivery && delivery.status !== 'pending' ? delivery : undefined;
+    }, timeoutMs, `the delivery for job ${jobId}`);
+
+  it('posts the finished job to the upload\'s callbackUrl, signed', async () => {
+    const receiver = await startReceiver();
+    const jobId = await upload({ callbackUrl: receiver.url });
+
+    const [received] = await waitFor(() => (receiver.received().length > 0 ? receiver.received() : undefined), 15_000, 'a delivery');
+    const job = await api<JobResponse>(server, `/api/status/${jobId}`);
+
+    assert.equal(received.signature, 'valid');
+    assert.equal(received.status, 204);
+    assert.equal(received.payload.event, 'job.completed');
+    assert.deepEqual(received.payload.job, job);
+    assert.equal(received.headers['x-snaptrace-event'], 'job.completed');
+    assert.equal(received.headers['x-snaptrace-delivery'], received.payload.id);
+    assert.match(received.headers['x-snaptrace-signature'] ?? '', /^sha256=[0-9a-f]{64}$/);
+    assert.equal(received.headers['user-agent'], 'SnapTrace-Webhooks/1.0');
+
+    const delivery = await settledDelivery(jobId);
+    assert.equal(delivery.status, 'succeeded');
+    assert.equal(delivery.source, 'callback');
+    assert.equal(delivery.deliveryId, received.payload.id);
+  });
+
+  it('retries failed deliveries with exponential backoff', async () => {
+    const receiver = await startReceiver(2);
+    const jobId = await upload({ callbackUrl: receiver.url });
+
+    const delivery = await settledDelivery(jobId);
+    assert.equal(delivery.status, 'succeeded');
+    assert.deepEqual(delivery.attempts.map((attempt) => attempt.statusCode), [500, 500, 204]);
+    assert.equal(delivery.attempts[0].error, 'Responded with 500');
+    assert.equal(delivery.nextAttemptAt, undefined);
+
+    // Delays are the base, then twice that, each with up to 20% jitter
+    const [first, second, third] = delivery.attempts.map((attempt) => Date.parse(attempt.attemptedAt));
+    assert.ok(second - first >= BACKOFF_BASE_MS * 0.8, `first retry after ${second - first}ms`);
+    assert.ok(third - second >= BACKOFF_BASE_MS * 2 * 0.8, `second retry after ${third - second}ms`);
+    assert.ok(third - second > second - first, 'the second delay is longer than the first');
+
+    // Every attempt sends the same delivery, so a receiver can de-duplicate
+    const received = receiver.received();
+    assert.equal(received.length, 3);
+    assert.ok(received.every(({ payload, signature }) => payload.id === delivery.deliveryId && signature === 'valid'));
+  });
+
+  it('gives up after WEBHOOK_MAX_ATTEMPTS', async () => {
+    // Nothing listens here, so every attempt fails without a response
+    const jobId = await upload({ callbackUrl: `http://localhost:${await freePort()}/hook` });
+
+    const delivery = await settledDelivery(jobId);
+    assert.equal(delivery.status, 'failed');
+    assert.equal(delivery.attempts.length, MAX_ATTEMPTS);
+    assert.ok(delivery.attempts.every((attempt) => attempt.statusCode === undefined && attempt.error));
+  });
+
+  it('notifies account webhooks until they are deleted', async () => {
+    const receiver = await startReceiver();
+    const webhook = await api<WebhookResponse>(server, '/api/webhooks', {
+      method: 'POST',
+      body: JSON.stringify({ url: receiver.url })
+    });
+
+    const jobId = await upload();
+    const delivery = await settledDelivery(jobId);
+    assert.equal(delivery.source, 'account');
+    assert.equal(delivery.url, receiver.url);
+    assert.equal(receiver.received()[0]?.signature, 'valid');
+
+    await api(server, `/api/webhooks/${webhook.webhookId}`, { method: 'DELETE' });
+    const laterJobId = await upload();
+    await waitFor(async () => {
+      const job = await api<JobResponse>(server, `/api/status/${laterJobId}`);
+      return job.status === 'completed' ? job : undefined;
+    }, 15_000, 'the job to complete');
+    assert.deepEqual(await deliveriesOf(laterJobId), []);
+  });
+
+  it('lists deliveries newest first, filtered by job', async () => {
+    const receiver = await startReceiver();
+    const firstJobId = await upload({ callbackUrl: receiver.url });
+    const secondJobId = await upload({ callbackUrl: receiver.url });
+    await settledDelivery(firstJobId);
+    await settledDelivery(secondJobId);
+
+    const { deliveries } = await api<WebhookDeliveryListResponse>(server, '/api/webhooks/deliveries?limit=2');
+    assert.deepEqual(deliveries.map((delivery: WebhookDeliveryResponse) => delivery.jobId), [secondJobId, firstJobId]);
+    assert.deepEqual((await deliveriesOf(firstJobId)).map((delivery) => delivery.jobId), [firstJobId]);
+  });
+
+  it('logs deliveries that shutdown leaves unfinished', async () => {
+    const receiver = await startReceiver(1);
+    const draining = await startServer({
+      WEBHOOK_SIGNING_KEY: 'test-signing-key-that-is-long-enough',
+      // Long enough that the retry is still waiting when the signal comes
+      WEBHOOK_BACKOFF_BASE_MS: '60000',
+      LOG_LEVEL: 'info'
+    });
+    try {
+      const { jobId } = await uploadFile(draining, await createPng(imageSize++), { callbackUrl: receiver.url });
+      const delivery = await waitFor(async () => {
+        const [pending] = (await api<WebhookDeliveryListResponse>(draining, `/api/webhooks/deliveries?jobId=${jobId}`)).deliveries;
+        return pending?.attempts.length === 1 ? pending : undefined;
+      }, 15_000, 'the first attempt');
+      assert.equal(delivery.status, 'pending');
+      assert.ok(delivery.nextAttemptAt);
+    } finally {
+      await draining.stop();
+    }
+
+    assert.match(draining.output(), /Webhook delivery interrupted by shutdown/);
+    assert.match(draining.output(), /webhook\.undelivered_count=1/);
+    assert.equal(receiver.received().length, 1);
+  });
+
+  it('sends the job\'s trace context, with webhook.deliver as the parent', async () => {
+    const receiver = await startReceiver();
+    const jobId = await upload({ callbackUrl: receiver.url });
+    const delivery = await settledDelivery(jobId);
+    const job = await api<JobResponse>(server, `/api/status/${jobId}`);
+    const { headers } = receiver.received()[0];
+
+    assert.ok(job.traceId);
+    assert.equal(delivery.traceId, job.traceId);
+
+    const [, traceId, parentSpanId] = (headers.traceparent ?? '').split('-');
+    assert.equal(traceId, job.traceId);
+    // One sentry-trace header, not one from us and one from Sentry's fetch instrumentation
+    assert.match(headers['sentry-trace'] ?? '', new RegExp(`^${job.traceId}-[0-9a-f]{16}-1$`));
+    assert.match(headers.baggage ?? '', new RegExp(`sentry-trace_id=${job.traceId}`));
+
+    const trace = await waitFor(async () => {
+      const response = await fetch(`${server.url}/api/dev/traces/${job.traceId}`);
+      const captured = response.ok ? (await response.json()) as CapturedTraceResponse : undefined;
+      return captured?.spans.some((span) => span.op === 'webhook.deliver') ? captured : undefined;
+    }, 10_000, 'the webhook.deliver span');
+    const deliverSpan = trace.spans.find((span) => span.op === 'webhook.deliver');
+    assert.equal(deliverSpan?.spanId, parentSpanId);
+    assert.equal(deliverSpan?.attributes['webhook.delivery_id'], delivery.deliveryId);
+    assert.equal(deliverSpan?.attributes['webhook.outcome'], 'succeeded');
+  });
+});
@@ -1,35 +1,160 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import * as Sentry from '@sentry/react';
 import UploadForm from './components/UploadForm';
 import Gallery from './components/Gallery';
+import HealthBanner from './components/HealthBanner';
+import { DEFAULT_FILTERS, GalleryFilterState, hasActiveFilters, toJobListQuery } from './components/GalleryFilters';
+import { isTerminalStatus } from 'snaptrace-shared';
+import type { JobResponse, JobStatus } from 'snaptrace-shared';
+import { listJobs } from './services/jobs';
+import { watchJob } from './services/jobStatus';
+import { ApiError } from './config/api';
 import { Camera, Sparkles } from 'lucide-react';
 import './App.css';
 
-export interface UploadInfo {
+// A gallery entry: a job from the backend, or a local upload that has not
+// become one yet. Shares its naming with the backend's job contract.
+export interface UploadInfo extends Pick<JobResponse, 'fileName' | 'fileType' | 'fileSize' | 'traceId'> {
   id: string;
-  fileName: string;
-  fileSize: number;
-  mimeType: string;
-  uploadedAt: Date;
-  status: 'uploading' | 'processing' | 'completed' | 'failed';
+  jobId?: string;
+  status: 'uploading' | JobStatus;
+  createdAt: Date;
   previewUrl?: string;
-  objectKey?: string;
+  rejectionMessage?: string;
 }
 
+const PAGE_SIZE = 24;
+
+const toUploadInfo = (job: JobResponse): UploadInfo => ({
+  id: job.jobId,
+  jobId: job.jobId,
+  fileName: job.fileName,
+  fileType: job.fileType,
+  fileSize: job.fileSize,
+  traceId: job.traceId,
+  status: job.status,
+  createdAt: new Date(job.createdAt),
+  rejectionMessage: job.status === 'rejected' ? job.result?.error : undefined
+});
+
 function App() {
   const [uploads, setUploads] = useState<UploadInfo[]>([]);
   const [isUploading, setIsUploading] = useState(false);
+  const [filters, setFilters] = useState<GalleryFilterState>(DEFAULT_FILTERS);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [isLoadingJobs, setIsLoadingJobs] = useState(false);
+  const requestRef = useRef(0);
+  const watchersRef = useRef(new Map<string, () => void>());
+
+  // Jobs that were still running when they were loaded keep updating live
+  const followJob = useCallback((jobId: string) => {
+    if (watchersRef.current.has(jobId)) return;
+    const stop = watchJob(jobId, (update) => {
+      setUploads(prev => prev.map(upload =>
+        upload.jobId === jobId ? { ...upload, ...toUploadInfo(update), id: upload.id } : upload
+      ));
+      if (isTerminalStatus(update.status)) {
+        watchersRef.current.delete(jobId);
+      }
+    }, (error) => {
+      watchersRef.current.delete(jobId);
+      // Deleted elsewhere, e.g. in another tab
+      if (error instanceof ApiError && error.status === 404) {
+        setUploads(prev => prev.filter(upload => upload.jobId !== jobId));
+        setTotal(prev => Math.max(prev - 1, 0));
+      }
+    });
+    watchersRef.current.set(jobId, stop);
+  }, []);
+
+  const loadJobs = useCallback(async (cursor?: string) => {
+    const request = ++requestRef.current;
+    setIsLoadingJobs(true);
+
+    await Sentry.startSpan(
+      {
+        name: 'Load gallery page',
+        op: 'gallery.load',
+        attributes: {
+          'page.is_first': !cursor,
+          'page.size': PAGE_SIZE,
+          'gallery.sort': filters.sort,
+          'gallery.filtered': hasActiveFilters(filters),
+        }
+      },
+      async (span) => {
+        try {
+          const page = await listJobs({ ...toJobListQuery(filters), limit: PAGE_SIZE, cursor });
+          span?.setAttribute('page.count', page.jobs.length);
+          span?.setAttribute('page.has_more', page.nextCursor !== null);
+
+          // A newer request (e.g. a filter change) superseded this one
+          if (request !== requestRef.current) return;
+
+          const loaded = page.jobs.map(toUploadInfo);
+          setUploads(prev => {
+            // Local uploads still in flight stay on top of a fresh first page;
+            // the upload form keeps updating them by their local id
+            const kept = cursor ? prev : prev.filter(upload =>
+              upload.id !== upload.jobId && (upload.status === 'uploading' || !isTerminalStatus(upload.status))
+            );
+            const known = new Set(kept.map(upload => upload.jobId));
+            return [...kept, ...loaded.filter(upload => !known.has(upload.jobId))];
+          });
+          setNextCursor(page.nextCursor);
+          setTotal(page.total);
+
+          page.jobs.filter(job => !isTerminalStatus(job.status)).forEach(job => followJob(job.jobId));
+        } catch (error) {
+          console.error('Failed to load gallery:', error);
+          span?.setAttribute('page.error', error instanceof Error ? error.message : 'Unknown error');
+        }
+      }
+    );
+
+    if (request === requestRef.current) {
+      setIsLoadingJobs(false);
+    }
+  }, [filters, followJob]);
+
+  useEffect(() => {
+    void loadJobs();
+  }, [loadJobs]);
+
+  useEffect(() => {
+    const watchers = watchersRef.current;
+    return () => {
+      watchers.forEach(stop => stop());
+      watchers.clear();
+    };
+  }, []);
+
+  const handleLoadMore = () => {
+    if (nextCursor && !isLoadingJobs) {
+      void loadJobs(nextCursor);
+    }
+  };
 
   const handleUploadComplete = (uploadInfo: UploadInfo) => {
     setUploads(prev => [uploadInfo, ...prev]);
+    setTotal(prev => prev + 1);
   };
 
-  const updateUploadStatus = (id: string, status: UploadInfo['status']) => {
+  const updateUploadStatus = (id: string, status: UploadInfo['status'], changes: Partial<UploadInfo> = {}) => {
     setUploads(prev => prev.map(upload => 
-      upload.id === id ? { ...upload, status } : upload
+      upload.id === id ? { ...upload, ...changes, status } : upload
     ));
   };
 
+  const handleUploadDeleted = (id: string) => {
+    setUploads(prev => prev.filter(upload => upload.id !== id));
+    setTotal(prev => Math.max(prev - 1, 0));
+  };
+
+  const showGallery = uploads.length > 0 || hasActiveFilters(filters);
+
   return (
     <div className="app">
       <div className="background-gradient" />
@@ -55,6 +180,8 @@ function App() {
           <p className="tagline">Capture moments, trace performance</p>
         </motion.header>
 
+        <HealthBanner />
+
         <motion.div
           initial={{ y: 20, opacity: 0 }}
           animate={{ y: 0, opacity: 1 }}
@@ -62,6 +189,7 @@ function App() {
         >
           <UploadForm 
             onUploadComplete={handleUploadComplete}
+            onUploadCancelled={handleUploadDeleted}
             isUploading={isUploading}
             setIsUploading={setIsUploading}
             updateUploadStatus={updateUploadStatus}
@@ -69,19 +197,28 @@ function App() {
         </motion.div>
 
         <AnimatePresence mode="wait">
-          {uploads.length > 0 && (
+          {showGallery && (
             <motion.div
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -20 }}
               transition={{ delay: 0.3 }}
             >
-              <Gallery uploads={uploads} />
+              <Gallery
+                uploads={uploads}
+                total={total}
+                filters={filters}
+                onFiltersChange={setFilters}
+                onDelete={handleUploadDeleted}
+                onLoadMore={handleLoadMore}
+                hasMore={nextCursor !== null}
+                isLoading={isLoadingJobs}
+              />
             </motion.div>
           )}
         </AnimatePresence>
 
-        {uploads.length === 0 && !isUploading && (
+        {!showGallery && !isUploading && !isLoadingJobs && (
           <motion.div 
             className="empty-state"
             initial={{ opacity: 0 }}
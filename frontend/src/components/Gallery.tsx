@@ -1,15 +1,57 @@
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import Masonry from 'react-masonry-css';
-import { motion } from 'framer-motion';
-import { Clock, CheckCircle, AlertCircle, Loader2, Download, Eye, Trash2 } from 'lucide-react';
+import { motion, AnimatePresence } from 'framer-motion';
+import * as Sentry from '@sentry/react';
+import { Clock, CheckCircle, AlertCircle, Loader2, Download, Eye, Trash2, ShieldAlert, Ban, Activity } from 'lucide-react';
+import { isTerminalStatus } from 'snaptrace-shared';
 import { UploadInfo } from '../App';
+import Lightbox from './Lightbox';
+import TracePanel from './TracePanel';
+import GalleryFilters, { GalleryFilterState } from './GalleryFilters';
+import { deleteJob, downloadProcessedFile, getJobFileUrl } from '../services/jobs';
+import { TRACE_CAPTURE_ENABLED } from '../services/traceCapture';
+import { formatFileSize } from '../utils/format';
 import './Gallery.css';
 
 interface GalleryProps {
   uploads: UploadInfo[];
+  total: number;
+  filters: GalleryFilterState;
+  onFiltersChange: (filters: GalleryFilterState) => void;
+  onDelete: (id: string) => void;
+  onLoadMore: () => void;
+  hasMore: boolean;
+  isLoading: boolean;
 }
 
-const Gallery: React.FC<GalleryProps> = ({ uploads }) => {
+const Gallery: React.FC<GalleryProps> = ({
+  uploads,
+  total,
+  filters,
+  onFiltersChange,
+  onDelete,
+  onLoadMore,
+  hasMore,
+  isLoading
+}) => {
+  const [viewing, setViewing] = useState<UploadInfo | null>(null);
+  const [tracing, setTracing] = useState<UploadInfo | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Fetch the next page as the end of the grid scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) onLoadMore();
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore]);
+
   const breakpointColumnsObj = {
     default: 4,
     1100: 3,
@@ -21,12 +63,17 @@ const Gallery: React.FC<GalleryProps> = ({ uploads }) => {
     switch (status) {
       case 'uploading':
         return <Loader2 size={16} className="status-icon spinning" />;
+      case 'pending':
       case 'processing':
         return <Clock size={16} className="status-icon processing" />;
       case 'completed':
         return <CheckCircle size={16} className="status-icon success" />;
       case 'failed':
         return <AlertCircle size={16} className="status-icon error" />;
+      case 'rejected':
+        return <ShieldAlert size={16} className="status-icon error" />;
+      case 'cancelled':
+        return <Ban size={16} className="status-icon" />;
       default:
         return null;
     }
@@ -36,21 +83,84 @@ const Gallery: React.FC<GalleryProps> = ({ uploads }) => {
     switch (status) {
       case 'uploading':
         return 'Uploading...';
+      case 'pending':
+        return 'Queued';
       case 'processing':
         return 'Processing...';
       case 'completed':
         return 'Ready';
       case 'failed':
         return 'Failed';
+      case 'rejected':
+        return 'Rejected';
+      case 'cancelled':
+        return 'Cancelled';
       default:
         return '';
     }
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes < 1024) return bytes + ' B';
-    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
-    return (bytes / 1024 / 1024).toFixed(1) + ' MB';
+  const handleDownload = async (upload: UploadInfo) => {
+    if (!upload.jobId) return;
+
+    setBusyId(upload.id);
+    await Sentry.startSpan(
+      {
+        name: 'Download media',
+        op: 'gallery.download',
+        attributes: {
+          'job.id': upload.jobId,
+          'file.mime_type': upload.fileType,
+        }
+      },
+      async (span) => {
+        try {
+          const bytes = await downloadProcessedFile(upload.jobId!, upload.fileName);
+          span?.setAttribute('download.size_bytes', bytes);
+          span?.setAttribute('download.success', true);
+        } catch (error) {
+          console.error('Download failed:', error);
+          span?.setAttribute('download.success', false);
+          span?.setAttribute('download.error', error instanceof Error ? error.message : 'Unknown error');
+        }
+      }
+    );
+    setBusyId(null);
+  };
+
+  // The backend refuses to delete a job that hasn't finished (409)
+  const isDeletable = (upload: UploadInfo) => upload.status !== 'uploading' && isTerminalStatus(upload.status);
+
+  const handleDelete = async (upload: UploadInfo) => {
+    setBusyId(upload.id);
+    await Sentry.startSpan(
+      {
+        name: 'Delete media',
+        op: 'gallery.delete',
+        attributes: {
+          'job.id': upload.jobId ?? '',
+          'file.size_bytes': upload.fileSize,
+        }
+      },
+      async (span) => {
+        try {
+          // Uploads that never produced a job only exist locally
+          if (upload.jobId) {
+            await deleteJob(upload.jobId);
+          }
+          span?.setAttribute('delete.success', true);
+          if (upload.previewUrl?.startsWith('blob:')) {
+            URL.revokeObjectURL(upload.previewUrl);
+          }
+          onDelete(upload.id);
+        } catch (error) {
+          console.error('Delete failed:', error);
+          span?.setAttribute('delete.success', false);
+          span?.setAttribute('delete.error', error instanceof Error ? error.message : 'Unknown error');
+        }
+      }
+    );
+    setBusyId(null);
   };
 
   const formatDate = (date: Date) => {
@@ -68,17 +178,28 @@ const Gallery: React.FC<GalleryProps> = ({ uploads }) => {
     return date.toLocaleDateString();
   };
 
-  if (uploads.length === 0) {
-    return null;
-  }
+  // Local uploads show the picked file; everything else comes from the backend,
+  // which never serves files the content scan rejected
+  const getImageSource = (upload: UploadInfo) => {
+    if (upload.status === 'rejected') return undefined;
+    if (upload.previewUrl) return upload.previewUrl;
+    if (!upload.jobId) return undefined;
+    return getJobFileUrl(upload.jobId, upload.status === 'completed' ? 'thumbnail' : 'original');
+  };
 
   return (
     <div className="gallery-container">
       <div className="gallery-header">
         <h2>Your Gallery</h2>
-        <p className="gallery-count">{uploads.length} {uploads.length === 1 ? 'photo' : 'photos'}</p>
+        <p className="gallery-count">{total} {total === 1 ? 'photo' : 'photos'}</p>
       </div>
 
+      <GalleryFilters filters={filters} onChange={onFiltersChange} />
+
+      {uploads.length === 0 && !isLoading && (
+        <p className="gallery-empty">No photos match these filters</p>
+      )}
+
       <Masonry
         breakpointCols={breakpointColumnsObj}
         className="masonry-grid"
@@ -91,7 +212,8 @@ const Gallery: React.FC<GalleryProps> = ({ uploads }) => {
             initial={{ opacity: 0, scale: 0.8 }}
             animate={{ opacity: 1, scale: 1 }}
             transition={{ 
-              delay: index * 0.05,
+              // Stagger within each loaded page rather than across the whole gallery
+              delay: (index % 24) * 0.05,
               type: "spring",
               stiffness: 200,
               damping: 20
@@ -99,23 +221,52 @@ const Gallery: React.FC<GalleryProps> = ({ uploads }) => {
             whileHover={{ y: -5 }}
           >
             <div className="image-container">
-              {upload.previewUrl && (
+              {getImageSource(upload) ? (
                 <img 
-                  src={upload.previewUrl} 
+                  src={getImageSource(upload)} 
                   alt={upload.fileName}
                   loading="lazy"
                 />
+              ) : upload.status === 'rejected' && (
+                <div className="image-placeholder" title={upload.rejectionMessage}>
+                  <ShieldAlert size={40} />
+                  <span>{upload.rejectionMessage ?? 'Rejected by the content scan'}</span>
+                </div>
               )}
               
               <div className="image-overlay">
                 <div className="overlay-actions">
-                  <button className="action-button" title="View">
+                  <button
+                    className="action-button"
+                    title="View"
+                    onClick={() => setViewing(upload)}
+                    disabled={upload.status === 'rejected'}
+                  >
                     <Eye size={20} />
                   </button>
-                  <button className="action-button" title="Download">
+                  <button
+                    className="action-button"
+                    title="Download"
+                    onClick={() => handleDownload(upload)}
+                    disabled={upload.status !== 'completed' || !upload.jobId || busyId === upload.id}
+                  >
                     <Download size={20} />
                   </button>
-                  <button className="action-button danger" title="Delete">
+                  {TRACE_CAPTURE_ENABLED && upload.traceId && (
+                    <button
+                      className="action-button"
+                      title="Trace"
+                      onClick={() => setTracing(upload)}
+                    >
+                      <Activity size={20} />
+                    </button>
+                  )}
+                  <button
+                    className="action-button danger"
+                    title="Delete"
+                    onClick={() => handleDelete(upload)}
+                    disabled={!isDeletable(upload) || busyId === upload.id}
+                  >
                     <Trash2 size={20} />
                   </button>
                 </div>
@@ -132,12 +283,28 @@ const Gallery: React.FC<GalleryProps> = ({ uploads }) => {
               <div className="image-meta">
                 <span className="meta-item">{formatFileSize(upload.fileSize)}</span>
                 <span className="meta-separator">•</span>
-                <span className="meta-item">{formatDate(upload.uploadedAt)}</span>
+                <span className="meta-item">{formatDate(upload.createdAt)}</span>
               </div>
             </div>
           </motion.div>
         ))}
       </Masonry>
+
+      <div ref={sentinelRef} className="gallery-sentinel">
+        {isLoading && <Loader2 size={24} className="status-icon spinning" />}
+      </div>
+
+      <AnimatePresence>
+        {viewing && (
+          <Lightbox key={viewing.id} upload={viewing} onClose={() => setViewing(null)} />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {tracing && (
+          <TracePanel key={tracing.id} upload={tracing} onClose={() => setTracing(null)} />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
@@ -0,0 +1,120 @@
+import React from 'react';
+import type { ListJobsParams } from 'snaptrace-shared';
+
+export interface GalleryFilterState {
+  status: '' | 'active' | 'completed' | 'failed' | 'rejected' | 'cancelled';
+  mimeType: string;
+  from: string;
+  to: string;
+  sort: 'newest' | 'oldest' | 'largest' | 'smallest' | 'name';
+}
+
+export const DEFAULT_FILTERS: GalleryFilterState = {
+  status: '',
+  mimeType: '',
+  from: '',
+  to: '',
+  sort: 'newest'
+};
+
+export const hasActiveFilters = (filters: GalleryFilterState) =>
+  Boolean(filters.status || filters.mimeType || filters.from || filters.to);
+
+const SORTS: Record<GalleryFilterState['sort'], Pick<ListJobsParams, 'sort' | 'order'>> = {
+  newest: { sort: 'createdAt', order: 'desc' },
+  oldest: { sort: 'createdAt', order: 'asc' },
+  largest: { sort: 'fileSize', order: 'desc' },
+  smallest: { sort: 'fileSize', order: 'asc' },
+  name: { sort: 'fileName', order: 'asc' }
+};
+
+// Date inputs are whole local days; "to" includes the whole day it names
+const startOfDay = (date: string, offsetDays = 0) => {
+  const day = new Date(`${date}T00:00`);
+  day.setDate(day.getDate() + offsetDays);
+  return day.toISOString();
+};
+
+export function toJobListQuery(filters: GalleryFilterState): ListJobsParams {
+  return {
+    ...SORTS[filters.sort],
+    status: filters.status === 'active'
+      ? ['pending', 'processing']
+      : filters.status ? [filters.status] : undefined,
+    mimeType: filters.mimeType || undefined,
+    createdAfter: filters.from ? startOfDay(filters.from) : undefined,
+    createdBefore: filters.to ? startOfDay(filters.to, 1) : undefined
+  };
+}
+
+interface GalleryFiltersProps {
+  filters: GalleryFilterState;
+  onChange: (filters: GalleryFilterState) => void;
+}
+
+const GalleryFilters: React.FC<GalleryFiltersProps> = ({ filters, onChange }) => {
+  const update = (changes: Partial<GalleryFilterState>) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="gallery-filters">
+      <select
+        value={filters.status}
+        onChange={(e) => update({ status: e.target.value as GalleryFilterState['status'] })}
+        aria-label="Status"
+      >
+        <option value="">All statuses</option>
+        <option value="completed">Ready</option>
+        <option value="active">In progress</option>
+        <option value="failed">Failed</option>
+        <option value="rejected">Rejected</option>
+        <option value="cancelled">Cancelled</option>
+      </select>
+
+      <select
+        value={filters.mimeType}
+        onChange={(e) => update({ mimeType: e.target.value })}
+        aria-label="File type"
+      >
+        <option value="">All types</option>
+        <option value="image/jpeg">JPEG</option>
+        <option value="image/png">PNG</option>
+        <option value="image/gif">GIF</option>
+      </select>
+
+      <input
+        type="date"
+        value={filters.from}
+        max={filters.to || undefined}
+        onChange={(e) => update({ from: e.target.value })}
+        aria-label="From"
+      />
+      <input
+        type="date"
+        value={filters.to}
+        min={filters.from || undefined}
+        onChange={(e) => update({ to: e.target.value })}
+        aria-label="To"
+      />
+
+      <select
+        value={filters.sort}
+        onChange={(e) => update({ sort: e.target.value as GalleryFilterState['sort'] })}
+        aria-label="Sort"
+      >
+        <option value="newest">Newest first</option>
+        <option value="oldest">Oldest first</option>
+        <option value="largest">Largest first</option>
+        <option value="smallest">Smallest first</option>
+        <option value="name">Name</option>
+      </select>
+
+      {hasActiveFilters(filters) && (
+        <button className="clear-filters" onClick={() => onChange({ ...DEFAULT_FILTERS, sort: filters.sort })}>
+          Clear
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default GalleryFilters;
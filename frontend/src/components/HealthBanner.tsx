@@ -0,0 +1,73 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertTriangle, RefreshCw, WifiOff } from 'lucide-react';
+import API_BASE_URL from '../config/api';
+import { BackendHealth, describeFailingChecks, fetchBackendHealth } from '../services/health';
+import './HealthBanner.css';
+
+// Checked rarely while all is well, and more often once something is wrong so
+// the banner goes away soon after the backend recovers
+const HEALTHY_INTERVAL_MS = 30_000;
+const UNHEALTHY_INTERVAL_MS = 5_000;
+
+function describe({ state, report }: BackendHealth): { title: string; detail: string } {
+  const problems = report ? describeFailingChecks(report).join(', ') : '';
+  switch (state) {
+    case 'unreachable':
+      return { title: 'Backend unreachable', detail: `Can't reach ${API_BASE_URL}. Uploads will fail until it is back.` };
+    case 'draining':
+      return { title: 'Backend restarting', detail: 'New uploads are paused for a moment.' };
+    case 'unhealthy':
+      return { title: 'Backend unavailable', detail: `Uploads may fail${problems ? `: ${problems}` : ''}.` };
+    default:
+      return { title: 'Backend under load', detail: `Processing may be slower than usual${problems ? `: ${problems}` : ''}.` };
+  }
+}
+
+// Warns about the backend before an upload fails on it
+const HealthBanner: React.FC = () => {
+  const [health, setHealth] = useState<BackendHealth | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const check = useCallback(async () => {
+    setIsChecking(true);
+    setHealth(await fetchBackendHealth());
+    setIsChecking(false);
+  }, []);
+
+  const isHealthy = !health || health.state === 'healthy';
+
+  useEffect(() => {
+    if (!health) void check();
+    const timer = setInterval(check, isHealthy ? HEALTHY_INTERVAL_MS : UNHEALTHY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [check, isHealthy]);
+
+  const message = health && !isHealthy ? describe(health) : null;
+  const severity = health?.state === 'degraded' ? 'warning' : 'danger';
+
+  return (
+    <AnimatePresence>
+      {message && (
+        <motion.div
+          className={`health-banner ${severity}`}
+          role="status"
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -10 }}
+        >
+          {health?.state === 'unreachable' ? <WifiOff size={20} /> : <AlertTriangle size={20} />}
+          <div className="health-banner-text">
+            <strong>{message.title}</strong>
+            <span>{message.detail}</span>
+          </div>
+          <button className="health-banner-retry" onClick={check} disabled={isChecking} title="Check again">
+            <RefreshCw size={16} className={isChecking ? 'spinning' : ''} />
+          </button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default HealthBanner;
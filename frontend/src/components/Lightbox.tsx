@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import * as Sentry from '@sentry/react';
+import type { Span } from '@sentry/react';
+import { UploadInfo } from '../App';
+import type { JobFileVariant, JobResponse } from 'snaptrace-shared';
+import { fetchJob, getJobFileUrl } from '../services/jobs';
+import { formatFileSize } from '../utils/format';
+import './Lightbox.css';
+
+interface LightboxProps {
+  upload: UploadInfo;
+  onClose: () => void;
+}
+
+const PANE_LABELS: Record<JobFileVariant, string> = {
+  original: 'Original',
+  processed: 'Processed',
+  thumbnail: 'Thumbnail'
+};
+
+const formatDimensions = (width?: number, height?: number) =>
+  width && height ? `${width}×${height}` : '';
+
+const Lightbox: React.FC<LightboxProps> = ({ upload, onClose }) => {
+  const [job, setJob] = useState<JobResponse | null>(null);
+  const spanRef = useRef<Span>();
+  const pendingRef = useRef(new Set<JobFileVariant>());
+
+  // Processed outputs only exist once the backend has finished the job
+  const variants: JobFileVariant[] = upload.jobId && upload.status === 'completed'
+    ? ['original', 'processed', 'thumbnail']
+    : ['original'];
+
+  const getSource = (variant: JobFileVariant) =>
+    upload.jobId ? getJobFileUrl(upload.jobId, variant) : upload.previewUrl;
+
+  useEffect(() => {
+    // gallery.view covers opening the viewer until every image has loaded
+    const span = Sentry.startInactiveSpan({
+      name: 'View media',
+      op: 'gallery.view',
+      attributes: {
+        'job.id': upload.jobId ?? '',
+        'file.size_bytes': upload.fileSize,
+        'view.image_count': variants.length,
+      }
+    });
+    spanRef.current = span;
+    pendingRef.current = new Set(variants);
+
+    if (upload.jobId) {
+      fetchJob(upload.jobId).then(setJob).catch((error) => {
+        console.error('Failed to load job details:', error);
+      });
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      // Closed before everything loaded
+      if (spanRef.current) {
+        spanRef.current.setAttribute('view.completed', false);
+        spanRef.current.end();
+        spanRef.current = undefined;
+      }
+    };
+  }, [upload.id]);
+
+  const handleImageSettled = (variant: JobFileVariant, loaded: boolean) => {
+    const span = spanRef.current;
+    if (!span) return;
+
+    pendingRef.current.delete(variant);
+    if (!loaded) {
+      span.setAttribute(`view.${variant}_failed`, true);
+    }
+
+    if (pendingRef.current.size === 0) {
+      span.setAttribute('view.completed', true);
+      span.end();
+      spanRef.current = undefined;
+    }
+  };
+
+  const getMeta = (variant: JobFileVariant) => {
+    const result = job?.result;
+    switch (variant) {
+      case 'original':
+        return [formatFileSize(upload.fileSize), formatDimensions(result?.width, result?.height)];
+      case 'processed':
+        return [
+          result?.outputSize ? formatFileSize(result.outputSize) : '',
+          formatDimensions(result?.outputWidth, result?.outputHeight)
+        ];
+      case 'thumbnail':
+        return [result?.thumbnailSize ? formatFileSize(result.thumbnailSize) : ''];
+    }
+  };
+
+  return (
+    <motion.div
+      className="lightbox-backdrop"
+      onClick={onClose}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <motion.div
+        className="lightbox"
+        onClick={(e) => e.stopPropagation()}
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+      >
+        <div className="lightbox-header">
+          <h3>{upload.fileName}</h3>
+          <button className="lightbox-close" onClick={onClose} title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className={`lightbox-panes panes-${variants.length}`}>
+          {variants.map((variant) => (
+            <figure key={variant} className="lightbox-pane">
+              <div className="lightbox-image">
+                <img
+                  src={getSource(variant)}
+                  alt={`${upload.fileName} (${PANE_LABELS[variant]})`}
+                  onLoad={() => handleImageSettled(variant, true)}
+                  onError={() => handleImageSettled(variant, false)}
+                />
+              </div>
+              <figcaption>
+                <span className="pane-label">{PANE_LABELS[variant]}</span>
+                <span className="pane-meta">{getMeta(variant).filter(Boolean).join(' • ')}</span>
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default Lightbox;
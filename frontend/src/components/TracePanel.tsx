@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import type { CapturedSpan } from 'snaptrace-shared';
+import { UploadInfo } from '../App';
+import { ApiError, api } from '../config/api';
+import './TracePanel.css';
+
+interface TracePanelProps {
+  upload: UploadInfo;
+  onClose: () => void;
+}
+
+// Each side sends its spans when its root span ends: the browser after
+// file.upload, the backend after the request and again after media.process.
+// The panel keeps polling so late spans fill in while it is open.
+const REFRESH_INTERVAL_MS = 2000;
+
+interface WaterfallRow {
+  span: CapturedSpan;
+  depth: number;
+}
+
+// Depth-first under each root, keeping start order among siblings. Spans
+// whose parent was not captured are shown as roots.
+function toRows(spans: CapturedSpan[]): WaterfallRow[] {
+  const ids = new Set(spans.map((span) => span.spanId));
+  const children = new Map<string | undefined, CapturedSpan[]>();
+  for (const span of spans) {
+    const parent = span.parentSpanId && ids.has(span.parentSpanId) ? span.parentSpanId : undefined;
+    children.set(parent, [...(children.get(parent) ?? []), span]);
+  }
+
+  const rows: WaterfallRow[] = [];
+  const visit = (parent: string | undefined, depth: number) => {
+    for (const span of children.get(parent) ?? []) {
+      rows.push({ span, depth });
+      visit(span.spanId, depth + 1);
+    }
+  };
+  visit(undefined, 0);
+  return rows;
+}
+
+const formatDuration = (seconds: number) =>
+  seconds >= 1 ? `${seconds.toFixed(2)}s` : `${(seconds * 1000).toFixed(1)}ms`;
+
+const formatValue = (value: unknown) =>
+  typeof value === 'string' ? value : JSON.stringify(value);
+
+const TracePanel: React.FC<TracePanelProps> = ({ upload, onClose }) => {
+  const [spans, setSpans] = useState<CapturedSpan[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    const { traceId } = upload;
+    if (!traceId) return;
+
+    let stopped = false;
+    const load = async () => {
+      try {
+        const trace = await api.getCapturedTrace(traceId);
+        if (stopped) return;
+        setSpans(trace.spans);
+        setError(null);
+      } catch (loadError) {
+        if (stopped) return;
+        setError(loadError instanceof ApiError && loadError.status === 404
+          ? 'No spans captured for this upload yet'
+          : loadError instanceof Error ? loadError.message : 'Failed to load trace');
+      }
+    };
+
+    void load();
+    const timer = setInterval(load, REFRESH_INTERVAL_MS);
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [upload.traceId]);
+
+  const rows = toRows(spans);
+  const start = Math.min(...spans.map((span) => span.startTimestamp));
+  const end = Math.max(...spans.map((span) => span.endTimestamp));
+  // Keep a zero-length trace from dividing by zero
+  const total = Math.max(end - start, 0.001);
+
+  return (
+    <motion.div
+      className="trace-backdrop"
+      onClick={onClose}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <motion.div
+        className="trace-panel"
+        onClick={(e) => e.stopPropagation()}
+        initial={{ scale: 0.95, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.95, y: 20 }}
+      >
+        <div className="trace-header">
+          <div>
+            <h3>Trace · {upload.fileName}</h3>
+            <p className="trace-id">{upload.traceId}</p>
+          </div>
+          <button className="trace-close" onClick={onClose} title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        {spans.length === 0 ? (
+          <p className="trace-empty">{error ?? 'Loading trace...'}</p>
+        ) : (
+          <>
+            <div className="trace-summary">
+              <span>{spans.length} spans</span>
+              <span>{formatDuration(end - start)}</span>
+              <span className="trace-legend frontend">frontend</span>
+              <span className="trace-legend backend">backend</span>
+            </div>
+
+            <div className="trace-waterfall">
+              {rows.map(({ span, depth }) => (
+                <div key={span.spanId} className="trace-row-group">
+                  <button
+                    className={`trace-row ${expanded === span.spanId ? 'expanded' : ''}`}
+                    onClick={() => setExpanded(expanded === span.spanId ? null : span.spanId)}
+                  >
+                    <span className="trace-label" style={{ paddingLeft: `${depth * 0.875}rem` }}>
+                      {span.op && <span className="trace-op">{span.op}</span>}
+                      <span className="trace-name" title={span.name}>{span.name}</span>
+                    </span>
+                    <span className="trace-timeline">
+                      <span
+                        className={`trace-bar ${span.source} ${span.status && span.status !== 'ok' ? 'not-ok' : ''}`}
+                        style={{
+                          left: `${((span.startTimestamp - start) / total) * 100}%`,
+                          width: `${Math.max(((span.endTimestamp - span.startTimestamp) / total) * 100, 0.5)}%`
+                        }}
+                      />
+                    </span>
+                    <span className="trace-duration">{formatDuration(span.endTimestamp - span.startTimestamp)}</span>
+                  </button>
+
+                  {expanded === span.spanId && (
+                    <dl className="trace-attributes">
+                      <dt>span.id</dt>
+                      <dd>{span.spanId}</dd>
+                      <dt>span.source</dt>
+                      <dd>{span.source}</dd>
+                      {span.status && (
+                        <>
+                          <dt>span.status</dt>
+                          <dd>{span.status}</dd>
+                        </>
+                      )}
+                      {Object.entries(span.attributes)
+                        .sort(([a], [b]) => a.localeCompare(b))
+                        .map(([key, value]) => (
+                          <React.Fragment key={key}>
+                            <dt>{key}</dt>
+                            <dd>{formatValue(value)}</dd>
+                          </React.Fragment>
+                        ))}
+                    </dl>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default TracePanel;
@@ -1,30 +1,118 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Upload, Image, File, Check, AlertCircle, Loader2 } from 'lucide-react';
+import { Upload, Image, Check, AlertCircle, Loader2, X } from 'lucide-react';
 import * as Sentry from '@sentry/react';
+import type { Span } from '@sentry/react';
+import { CANCELLED_SPAN_STATUS, isTerminalStatus } from 'snaptrace-shared';
+import type { ClientConfigResponse, TranscodePreset } from 'snaptrace-shared';
 import { UploadInfo } from '../App';
-import { API_ENDPOINTS } from '../config/api';
+import { api, ApiError } from '../config/api';
+import {
+  uploadFile,
+  uploadFileInChunks,
+  findExistingUpload,
+  runWithConcurrency,
+  UPLOAD_CONCURRENCY,
+  UploadResponse
+} from '../services/upload';
+import { fetchPresets, PresetOption } from '../services/presets';
+import { DEFAULT_CLIENT_CONFIG, fetchClientConfig, formatAcceptedTypes } from '../services/config';
+import { watchJob } from '../services/jobStatus';
+import { cancelJob } from '../services/jobs';
+import { getDroppedFiles } from '../utils/files';
+import { formatFileSize, formatWait } from '../utils/format';
 import './UploadForm.css';
 
+interface QueueItem {
+  id: string;
+  file: File;
+  status: 'queued' | 'uploading' | 'processing' | 'completed' | 'failed' | 'rejected' | 'cancelled';
+  progress: number;
+  jobId?: string;
+  error?: string;
+  // Refused by a rate limit or daily quota rather than failed
+  limited?: boolean;
+}
+
+const isFinished = (item: QueueItem) =>
+  item.status === 'completed' || item.status === 'failed' || item.status === 'rejected' || item.status === 'cancelled';
+
 interface UploadFormProps {
   onUploadComplete: (uploadInfo: UploadInfo) => void;
+  onUploadCancelled: (id: string) => void;
   isUploading: boolean;
   setIsUploading: (isUploading: boolean) => void;
-  updateUploadStatus: (id: string, status: UploadInfo['status']) => void;
+  updateUploadStatus: (id: string, status: UploadInfo['status'], changes?: Partial<UploadInfo>) => void;
 }
 
 const UploadForm: React.FC<UploadFormProps> = ({ 
   onUploadComplete, 
+  onUploadCancelled,
   isUploading, 
   setIsUploading,
   updateUploadStatus 
 }) => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
   const [dragActive, setDragActive] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'processing' | 'success' | 'error'>('idle');
-  const [errorMessage, setErrorMessage] = useState('');
+  const [notice, setNotice] = useState('');
+  const [presets, setPresets] = useState<PresetOption[]>([]);
+  const [selectedPreset, setSelectedPreset] = useState<TranscodePreset>();
+  const [limits, setLimits] = useState<ClientConfigResponse>(DEFAULT_CLIENT_CONFIG);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // One controller per queued file, so it can be cancelled before or during its upload
+  const controllersRef = useRef(new Map<string, AbortController>());
+  // Stops following the job of each file that is still processing
+  const watchersRef = useRef(new Map<string, () => void>());
+
+  useEffect(() => {
+    const watchers = watchersRef.current;
+    return () => {
+      watchers.forEach((stop) => stop());
+      watchers.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    fetchPresets()
+      .then(({ presets, defaultPreset }) => {
+        setPresets(presets);
+        setSelectedPreset(defaultPreset);
+      })
+      .catch((error) => {
+        // The backend falls back to its default preset
+        console.error('Failed to load presets:', error);
+      });
+  }, []);
+
+  useEffect(() => {
+    fetchClientConfig()
+      .then(setLimits)
+      .catch((error) => {
+        // Keep the defaults; the backend still enforces its real limits
+        console.error('Failed to load upload limits:', error);
+      });
+  }, []);
+
+  // Clear finished files once everything has settled
+  useEffect(() => {
+    if (isUploading || queue.length === 0 || !queue.every(isFinished)) return;
+
+    const hasFailures = queue.some((item) => item.status === 'failed' || item.status === 'rejected');
+    const timeout = setTimeout(() => {
+      setQueue((prev) => prev.filter((item) => !isFinished(item)));
+    }, hasFailures ? 4000 : 1500);
+    return () => clearTimeout(timeout);
+  }, [queue, isUploading]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timeout = setTimeout(() => setNotice(''), 3000);
+    return () => clearTimeout(timeout);
+  }, [notice]);
+
+  const updateItem = (id: string, changes: Partial<QueueItem>) => {
+    setQueue((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  };
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -36,77 +124,111 @@ const UploadForm: React.FC<UploadFormProps> = ({
     }
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFile(e.dataTransfer.files[0]);
-    }
+    if (isUploading) return;
+
+    addFiles(await getDroppedFiles(e.dataTransfer));
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
-    if (e.target.files && e.target.files[0]) {
-      handleFile(e.target.files[0]);
+    if (e.target.files) {
+      addFiles(Array.from(e.target.files));
     }
+    // Allow picking the same files again later
+    e.target.value = '';
+  };
+
+  const addFiles = (files: File[]) => {
+    const added: QueueItem[] = [];
+    const skipped: string[] = [];
+    const now = Date.now();
+
+    files.forEach((file, index) => {
+      if (!limits.acceptedTypes.includes(file.type)) {
+        skipped.push(`${file.name} is not a supported image`);
+      } else if (file.size > limits.maxUploadBytes) {
+        skipped.push(`${file.name} is larger than ${formatFileSize(limits.maxUploadBytes)}`);
+      } else {
+        const id = `${now}-${index}`;
+        controllersRef.current.set(id, new AbortController());
+        added.push({ id, file, status: 'queued', progress: 0 });
+      }
+    });
+
+    // A new selection replaces anything already finished
+    setQueue((prev) => [...prev.filter((item) => !isFinished(item)), ...added]);
+    setNotice(skipped.length > 0 ? `Skipped: ${skipped.join(', ')}` : '');
   };
 
-  const handleFile = (file: File) => {
-    if (!file.type.startsWith('image/')) {
-      setErrorMessage('Please select an image file');
-      setUploadStatus('error');
-      setTimeout(() => {
-        setUploadStatus('idle');
-        setErrorMessage('');
-      }, 3000);
+  // Before uploading starts this just drops the file from the selection.
+  // Once the file is a job, the backend is asked to stop processing it.
+  const cancelItem = async (item: QueueItem) => {
+    const { id, jobId } = item;
+
+    if (item.status === 'processing' && jobId) {
+      await Sentry.startSpan(
+        { name: 'Cancel job', op: 'job.cancel', attributes: { 'job.id': jobId } },
+        async (span) => {
+          try {
+            const job = await cancelJob(jobId);
+            span?.setAttribute('job.status', job.status);
+          } catch (error) {
+            console.error('Cancel failed:', error);
+          }
+        }
+      );
       return;
     }
 
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit
-      setErrorMessage('File size must be less than 10MB');
-      setUploadStatus('error');
-      setTimeout(() => {
-        setUploadStatus('idle');
-        setErrorMessage('');
-      }, 3000);
+    controllersRef.current.get(id)?.abort();
+
+    if (!isUploading) {
+      controllersRef.current.delete(id);
+      setQueue((prev) => prev.filter((item) => item.id !== id));
       return;
     }
-
-    setSelectedFile(file);
-    setErrorMessage('');
+    setQueue((prev) => prev.map((item) =>
+      item.id === id && item.status === 'queued' ? { ...item, status: 'cancelled' } : item
+    ));
   };
 
-  const handleUpload = async () => {
-    if (!selectedFile) return;
+  // Upload one file and follow its job. Resolves with the job ID, or nothing
+  // if the upload failed or was cancelled.
+  const uploadItem = async (item: QueueItem, parentSpan?: Span): Promise<string | undefined> => {
+    const { file } = item;
+    const controller = controllersRef.current.get(item.id) ?? new AbortController();
+    if (controller.signal.aborted) return undefined;
 
-    setIsUploading(true);
-    setUploadStatus('uploading');
-    setUploadProgress(0);
+    updateItem(item.id, { status: 'uploading', progress: 0 });
+    const onProgress = (progress: number) => updateItem(item.id, { progress });
 
     // Start Sentry span for upload using modern API
     const uploadStartTime = Date.now();
 
-    const uploadId = Date.now().toString();
     const uploadInfo: UploadInfo = {
-      id: uploadId,
-      fileName: selectedFile.name,
-      fileSize: selectedFile.size,
-      mimeType: selectedFile.type,
-      uploadedAt: new Date(),
+      id: item.id,
+      fileName: file.name,
+      fileSize: file.size,
+      fileType: file.type,
+      createdAt: new Date(),
       status: 'uploading',
-      previewUrl: URL.createObjectURL(selectedFile)
+      previewUrl: URL.createObjectURL(file)
     };
 
     // Use Sentry.startSpan for the entire upload operation
-    await Sentry.startSpan(
+    return Sentry.startSpan(
       {
         name: 'Upload media',
         op: 'file.upload',
+        parentSpan,
         attributes: {
-          'file.size_bytes': selectedFile.size,
-          'file.mime_type': selectedFile.type,
+          'file.size_bytes': file.size,
+          'file.mime_type': file.type,
+          'media.preset': selectedPreset,
         }
       },
       async (span) => {
@@ -114,90 +236,205 @@ const UploadForm: React.FC<UploadFormProps> = ({
           // Add to gallery immediately with uploading status
           onUploadComplete(uploadInfo);
 
-          // Simulate upload progress for UX
-          setUploadProgress(10);
-
-          const uploadResponse = await fetch(API_ENDPOINTS.UPLOAD, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              fileName: selectedFile.name,
-              fileType: selectedFile.type,
-              fileSize: selectedFile.size
-            })
-          });
-
-          if (!uploadResponse.ok) {
-            throw new Error(`Upload failed: ${uploadResponse.statusText}`);
+          // Skip the transfer entirely when the server already has this content
+          const hashStartTime = Date.now();
+          const { sha256, reused } = await findExistingUpload(file, selectedPreset);
+          span?.setAttribute('dedup.hash_ms', Date.now() - hashStartTime);
+          if (sha256) {
+            span?.setAttribute('file.sha256', sha256);
           }
 
-          const uploadData = await uploadResponse.json();
-          
-          // Mark as processing
-          setUploadProgress(90);
-          setUploadStatus('processing');
-          updateUploadStatus(uploadId, 'processing');
+          // Otherwise send the file itself and report real transfer progress.
+          // Files larger than one chunk go through a resumable session, one child span per chunk.
+          let uploadData: UploadResponse;
+          if (reused) {
+            span?.setAttribute('upload.transfer_mode', 'deduplicated');
+            span?.setAttribute('dedup.bytes_saved', file.size);
+            onProgress(100);
+            uploadData = reused;
+          } else if (file.size > limits.defaultChunkBytes) {
+            const chunkedData = await uploadFileInChunks(file, limits.defaultChunkBytes, onProgress, selectedPreset, span, controller.signal);
+            span?.setAttribute('upload.transfer_mode', 'chunked');
+            span?.setAttribute('upload.chunk_count', chunkedData.totalChunks);
+            span?.setAttribute('upload.resumed', chunkedData.resumed);
+            uploadData = chunkedData;
+          } else {
+            uploadData = await uploadFile(file, onProgress, selectedPreset, controller.signal);
+            span?.setAttribute('upload.transfer_mode', 'multipart');
+          }
+          // Without a lookup the backend can still recognise the content once it arrives
+          span?.setAttribute('dedup.hit', Boolean(uploadData.deduplicated));
           
-          // Store job ID for tracking
-          uploadInfo.objectKey = uploadData.jobId;
+          // Mark as processing and store job ID for tracking
+          updateItem(item.id, { status: 'processing', progress: 100, jobId: uploadData.jobId });
+          updateUploadStatus(item.id, 'processing', { jobId: uploadData.jobId, traceId: span?.spanContext().traceId });
           
           // Set success attributes
           span?.setAttribute('upload.success', true);
           span?.setAttribute('upload.duration_ms', Date.now() - uploadStartTime);
           span?.setAttribute('job.id', uploadData.jobId);
-
-          setUploadProgress(100);
           
-          // Simulate processing completion delay
-          setTimeout(() => {
-            updateUploadStatus(uploadId, 'completed');
-            setUploadStatus('success');
-            
-            // Reset form after success
-            setTimeout(() => {
-              setSelectedFile(null);
-              setUploadProgress(0);
-              setUploadStatus('idle');
-              if (fileInputRef.current) {
-                fileInputRef.current.value = '';
-              }
-            }, 1500);
-          }, 2000);
+          // Follow the real job status pushed by the backend
+          const stopWatching = watchJob(uploadData.jobId, (update) => {
+            if (isTerminalStatus(update.status)) {
+              watchersRef.current.delete(item.id);
+            }
+            switch (update.status) {
+              case 'pending':
+              case 'processing':
+                updateUploadStatus(item.id, update.status);
+                break;
+              case 'completed':
+                updateUploadStatus(item.id, 'completed');
+                updateItem(item.id, { status: 'completed' });
+                break;
+              case 'failed':
+              case 'rejected':
+                updateUploadStatus(item.id, update.status, {
+                  rejectionMessage: update.status === 'rejected' ? update.result?.error : undefined
+                });
+                updateItem(item.id, {
+                  status: update.status,
+                  error: update.status === 'rejected'
+                    ? `Rejected: ${update.result?.error || 'the file did not pass the content scan'}`
+                    : update.result?.error || 'Processing failed. Please try again.'
+                });
+                break;
+              case 'cancelled':
+                updateUploadStatus(item.id, 'cancelled');
+                updateItem(item.id, { status: 'cancelled' });
+                break;
+            }
+          }, (error) => {
+            watchersRef.current.delete(item.id);
+            updateItem(item.id, { status: 'failed', error: `Lost track of the job: ${error.message}` });
+          });
+          watchersRef.current.set(item.id, stopWatching);
 
+          return uploadData.jobId;
         } catch (error) {
+          if (controller.signal.aborted) {
+            span?.setAttribute('upload.cancelled', true);
+            span?.setStatus(CANCELLED_SPAN_STATUS);
+            updateItem(item.id, { status: 'cancelled' });
+            onUploadCancelled(item.id);
+            return undefined;
+          }
+
           console.error('Upload failed:', error);
           
           // Set error attributes
           span?.setAttribute('upload.success', false);
           span?.setAttribute('upload.error', error instanceof Error ? error.message : 'Unknown error');
           
-          updateUploadStatus(uploadId, 'failed');
-          setUploadStatus('error');
-          setErrorMessage(error instanceof Error ? error.message : 'Upload failed. Please try again.');
-          
-          setTimeout(() => {
-            setUploadStatus('idle');
-            setErrorMessage('');
-          }, 3000);
+          updateUploadStatus(item.id, 'failed');
+          if (error instanceof ApiError && error.status === 429) {
+            span?.setAttribute('upload.retry_after_s', error.retryAfterSeconds ?? 0);
+            updateItem(item.id, {
+              status: 'failed',
+              limited: true,
+              error: error.retryAfterSeconds ? `${error.message}. Try again in ${formatWait(error.retryAfterSeconds)}.` : error.message
+            });
+            return undefined;
+          }
+          updateItem(item.id, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Upload failed. Please try again.'
+          });
+          return undefined;
+        } finally {
+          controllersRef.current.delete(item.id);
         }
       }
     );
+  };
+
+  const handleUpload = async () => {
+    const pending = queue.filter((item) => item.status === 'queued');
+    if (pending.length === 0) return;
+
+    setIsUploading(true);
+
+    if (pending.length === 1) {
+      await uploadItem(pending[0]);
+    } else {
+      // Several files: one parent span, a child per file, and a batch on the
+      // backend grouping every job that made it through
+      await Sentry.startSpan(
+        {
+          name: 'Upload batch',
+          op: 'file.upload.batch',
+          attributes: {
+            'batch.file_count': pending.length,
+            'batch.total_bytes': pending.reduce((sum, item) => sum + item.file.size, 0),
+            'batch.concurrency': UPLOAD_CONCURRENCY,
+            'media.preset': selectedPreset,
+          }
+        },
+        async (span) => {
+          const jobIds: string[] = [];
+          await runWithConcurrency(pending, UPLOAD_CONCURRENCY, async (item) => {
+            const jobId = await uploadItem(item, span);
+            if (jobId) jobIds.push(jobId);
+          });
+
+          span?.setAttribute('batch.uploaded_count', jobIds.length);
+          if (jobIds.length === 0) return;
+
+          try {
+            const batch = await api.createBatch({ jobIds });
+            span?.setAttribute('batch.id', batch.batchId);
+          } catch (error) {
+            // The uploads themselves went through; only the grouping is missing
+            console.error('Failed to create batch:', error);
+            span?.setAttribute('batch.error', error instanceof Error ? error.message : 'Unknown error');
+          }
+        }
+      );
+    }
 
     setIsUploading(false);
   };
 
+  // The drop zone summarises the whole queue; the list below has the detail
+  const activeItems = queue.filter((item) => item.status !== 'cancelled');
+  const failedItems = activeItems.filter((item) => item.status === 'failed' || item.status === 'rejected');
+  const queuedCount = queue.filter((item) => item.status === 'queued').length;
+  const uploadStatus: 'idle' | 'uploading' | 'processing' | 'success' | 'error' =
+    activeItems.length === 0 || activeItems.every((item) => item.status === 'queued') ? 'idle'
+      : activeItems.some((item) => item.status === 'queued' || item.status === 'uploading') ? 'uploading'
+      : activeItems.some((item) => item.status === 'processing') ? 'processing'
+      : failedItems.length > 0 ? 'error'
+      : 'success';
+  const uploadProgress = activeItems.length === 0 ? 0 : Math.round(
+    activeItems.reduce((sum, item) => sum + (item.status === 'queued' || item.status === 'uploading' ? item.progress : 100), 0) /
+      activeItems.length
+  );
+  const selectedFiles = queue.filter((item) => item.status === 'queued');
+  const errorMessage = failedItems.length === 1
+    ? failedItems[0].error
+    : `${failedItems.length} of ${activeItems.length} files failed`;
+
   const getFileIcon = () => {
-    if (!selectedFile) return <Upload size={48} />;
-    if (selectedFile.type.startsWith('image/')) return <Image size={48} />;
-    return <File size={48} />;
+    if (selectedFiles.length === 0) return <Upload size={48} />;
+    return <Image size={48} />;
+  };
+
+  const getItemLabel = (item: QueueItem) => {
+    switch (item.status) {
+      case 'queued': return 'Waiting';
+      case 'uploading': return `${item.progress}%`;
+      case 'processing': return 'Processing';
+      case 'completed': return 'Done';
+      case 'cancelled': return 'Cancelled';
+      default: return item.error;
+    }
   };
 
   return (
     <div className="upload-form-container">
       <motion.div 
-        className={`upload-zone ${dragActive ? 'drag-active' : ''} ${selectedFile ? 'has-file' : ''}`}
+        className={`upload-zone ${dragActive ? 'drag-active' : ''} ${selectedFiles.length > 0 ? 'has-file' : ''}`}
         onDragEnter={handleDrag}
         onDragLeave={handleDrag}
         onDragOver={handleDrag}
@@ -210,7 +447,8 @@ const UploadForm: React.FC<UploadFormProps> = ({
           type="file"
           id="file-input"
           className="file-input"
-          accept="image/*"
+          accept={limits.acceptedTypes.join(',')}
+          multiple
           onChange={handleChange}
           disabled={isUploading}
         />
@@ -226,17 +464,24 @@ const UploadForm: React.FC<UploadFormProps> = ({
                 className="upload-content"
               >
                 <div className="upload-icon">{getFileIcon()}</div>
-                {selectedFile ? (
+                {selectedFiles.length === 1 ? (
                   <>
-                    <p className="file-name">{selectedFile.name}</p>
+                    <p className="file-name">{selectedFiles[0].file.name}</p>
                     <p className="file-size">
-                      {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                      {(selectedFiles[0].file.size / 1024 / 1024).toFixed(2)} MB
+                    </p>
+                  </>
+                ) : selectedFiles.length > 1 ? (
+                  <>
+                    <p className="file-name">{selectedFiles.length} images selected</p>
+                    <p className="file-size">
+                      {formatFileSize(selectedFiles.reduce((sum, item) => sum + item.file.size, 0))}
                     </p>
                   </>
                 ) : (
                   <>
-                    <p className="upload-text">Drop your image here or click to browse</p>
-                    <p className="upload-hint">Supports: JPG, PNG, GIF (Max 10MB)</p>
+                    <p className="upload-text">Drop your images here or click to browse</p>
+                    <p className="upload-hint">Supports: {formatAcceptedTypes(limits.acceptedTypes)} (Max {formatFileSize(limits.maxUploadBytes)} each)</p>
                   </>
                 )}
               </motion.div>
@@ -251,7 +496,9 @@ const UploadForm: React.FC<UploadFormProps> = ({
                 className="upload-content"
               >
                 <Loader2 size={48} className="spinner" />
-                <p className="upload-text">Uploading...</p>
+                <p className="upload-text">
+                  {activeItems.length > 1 ? `Uploading ${activeItems.length} images...` : 'Uploading...'}
+                </p>
                 <div className="progress-bar">
                   <motion.div 
                     className="progress-fill"
@@ -272,7 +519,9 @@ const UploadForm: React.FC<UploadFormProps> = ({
                 className="upload-content"
               >
                 <Loader2 size={48} className="spinner" />
-                <p className="upload-text">Processing your image...</p>
+                <p className="upload-text">
+                  {activeItems.length > 1 ? 'Processing your images...' : 'Processing your image...'}
+                </p>
                 <p className="upload-hint">Scanning, transcoding, and creating thumbnails</p>
               </motion.div>
             )}
@@ -305,7 +554,7 @@ const UploadForm: React.FC<UploadFormProps> = ({
                 className="upload-content error"
               >
                 <AlertCircle size={48} />
-                <p className="upload-text">Upload failed</p>
+                <p className="upload-text">{failedItems.every((item) => item.limited) ? 'Upload limit reached' : 'Upload failed'}</p>
                 {errorMessage && <p className="error-message">{errorMessage}</p>}
               </motion.div>
             )}
@@ -313,7 +562,59 @@ const UploadForm: React.FC<UploadFormProps> = ({
         </label>
       </motion.div>
 
-      {selectedFile && uploadStatus === 'idle' && (
+      {notice && <p className="upload-notice">{notice}</p>}
+
+      {(queue.length > 1 || uploadStatus === 'uploading' || uploadStatus === 'processing') && (
+        <ul className="upload-queue">
+          {queue.map((item) => (
+            <li key={item.id} className={`upload-queue-item ${item.status}`}>
+              <div className="upload-queue-details">
+                <span className="upload-queue-name">{item.file.name}</span>
+                <span className="upload-queue-status">{getItemLabel(item)}</span>
+              </div>
+              <div className="progress-bar">
+                <div className="progress-fill" style={{ width: `${isFinished(item) ? 100 : item.progress}%` }} />
+              </div>
+              {(item.status === 'queued' || item.status === 'uploading' || item.status === 'processing') && (
+                <button
+                  className="upload-queue-cancel"
+                  onClick={() => cancelItem(item)}
+                  aria-label={`Cancel ${item.file.name}`}
+                >
+                  <X size={16} />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {queuedCount > 0 && uploadStatus === 'idle' && presets.length > 0 && (
+        <motion.div
+          className="preset-picker"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <label htmlFor="preset-select">Processing</label>
+          <select
+            id="preset-select"
+            value={selectedPreset ?? ''}
+            onChange={(e) => setSelectedPreset(e.target.value as TranscodePreset)}
+            disabled={isUploading}
+          >
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.label}
+              </option>
+            ))}
+          </select>
+          <p className="preset-description">
+            {presets.find((preset) => preset.id === selectedPreset)?.description}
+          </p>
+        </motion.div>
+      )}
+
+      {queuedCount > 0 && uploadStatus === 'idle' && (
         <motion.button
           className="upload-button"
           onClick={handleUpload}
@@ -324,11 +625,11 @@ const UploadForm: React.FC<UploadFormProps> = ({
           whileTap={{ scale: 0.95 }}
         >
           <Upload size={20} />
-          Upload to SnapTrace
+          {queuedCount > 1 ? `Upload ${queuedCount} images` : 'Upload to SnapTrace'}
         </motion.button>
       )}
     </div>
   );
 };
 
-export default UploadForm;
\ No newline at end of file
+export default UploadForm;
@@ -1,15 +1,233 @@
 // API Configuration for SnapTrace
 // This ensures all API calls go directly to the backend without any proxy
+import type {
+  BatchResponse,
+  CapturedTraceResponse,
+  ClientConfigResponse,
+  CurrentUserResponse,
+  CreateBatchRequest,
+  CreateUploadSessionRequest,
+  CreateWebhookRequest,
+  ErrorResponse,
+  FieldIssue,
+  HealthResponse,
+  JobFileVariant,
+  JobPageResponse,
+  JobResponse,
+  ListJobsParams,
+  PresetsResponse,
+  QueueResponse,
+  TranscodePreset,
+  UploadAcceptedResponse,
+  UploadChunkResponse,
+  UploadMetadata,
+  UploadSessionResponse,
+  WebhookDeliveryListResponse,
+  WebhookListResponse,
+  WebhookResponse
+} from 'snaptrace-shared';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
+// Bearer token for every API call. In development the backend accepts its
+// built-in development token when it has no AUTH_TOKENS_FILE.
+const API_TOKEN = import.meta.env.VITE_API_TOKEN || (import.meta.env.DEV ? 'snaptrace-dev-token' : '');
+
+export const authHeaders = (): Record<string, string> =>
+  API_TOKEN ? { Authorization: `Bearer ${API_TOKEN}` } : {};
+
+// For EventSource and <img>, which can't send an Authorization header
+export function withAccessToken(url: string): string {
+  if (!API_TOKEN) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}access_token=${encodeURIComponent(API_TOKEN)}`;
+}
+
 export const API_ENDPOINTS = {
   // Upload endpoint (simplified - single endpoint)
   UPLOAD: `${API_BASE_URL}/api/upload`,
+
+  // Resumable upload session endpoints
+  UPLOAD_SESSIONS: `${API_BASE_URL}/api/uploads`,
+  UPLOAD_SESSION: (sessionId: string) => `${API_BASE_URL}/api/uploads/${sessionId}`,
+  UPLOAD_CHUNK: (sessionId: string, index: number) => `${API_BASE_URL}/api/uploads/${sessionId}/chunks/${index}`,
+  UPLOAD_COMPLETE: (sessionId: string) => `${API_BASE_URL}/api/uploads/${sessionId}/complete`,
   
+  // Processing presets and upload limits
+  PRESETS: `${API_BASE_URL}/api/presets`,
+  CONFIG: `${API_BASE_URL}/api/config`,
+
   // Status endpoints
   STATUS: (jobId: string) => `${API_BASE_URL}/api/status/${jobId}`,
-  HEALTH: `${API_BASE_URL}/api/health`
+  JOB_EVENTS: (jobId: string) => `${API_BASE_URL}/api/jobs/${jobId}/events`,
+
+  // Content already processed, looked up by SHA-256
+  CONTENT: (sha256: string) => `${API_BASE_URL}/api/content/${sha256}`,
+  CONTENT_JOBS: (sha256: string) => `${API_BASE_URL}/api/content/${sha256}/jobs`,
+
+  // Batches of jobs uploaded together
+  BATCHES: `${API_BASE_URL}/api/batches`,
+  BATCH: (batchId: string) => `${API_BASE_URL}/api/batches/${batchId}`,
+
+  // Job listing, files and management
+  JOBS: `${API_BASE_URL}/api/jobs`,
+  JOB: (jobId: string) => `${API_BASE_URL}/api/jobs/${jobId}`,
+  JOB_CANCEL: (jobId: string) => `${API_BASE_URL}/api/jobs/${jobId}/cancel`,
+  JOB_FILE: (jobId: string, variant: JobFileVariant) =>
+    `${API_BASE_URL}/api/jobs/${jobId}/files/${variant}`,
+  QUEUE: `${API_BASE_URL}/api/queue`,
+  HEALTH: `${API_BASE_URL}/api/health`,
+  ME: `${API_BASE_URL}/api/me`,
+
+  // Job notifications
+  WEBHOOKS: `${API_BASE_URL}/api/webhooks`,
+  WEBHOOK: (webhookId: string) => `${API_BASE_URL}/api/webhooks/${webhookId}`,
+  WEBHOOK_DELIVERIES: `${API_BASE_URL}/api/webhooks/deliveries`,
+
+  // Local trace capture, development only
+  DEV_ENVELOPES: `${API_BASE_URL}/api/dev/envelopes`,
+  DEV_TRACE: (traceId: string) => `${API_BASE_URL}/api/dev/traces/${traceId}`
+};
+
+// A non-2xx response. `issues` lists each rejected field when the backend's
+// request validation failed; `retryAfterSeconds` is set when a rate limit or
+// quota refused it (429).
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly issues: FieldIssue[] = [],
+    public readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export function toApiError(status: number, statusText: string, body: Partial<ErrorResponse>): ApiError {
+  const details = body.issues?.map((issue) => `${issue.field}: ${issue.message}`).join('; ');
+  const message = body.error || `Request failed: ${statusText}`;
+  return new ApiError(details ? `${message} (${details})` : message, status, body.issues, body.retryAfterSeconds);
+}
+
+// Resolve with the JSON body, or reject with an ApiError
+export async function readResponse<T>(response: Response): Promise<T> {
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw toApiError(response.status, response.statusText, body);
+  }
+  return body as T;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const headers = new Headers(init?.headers);
+  for (const [name, value] of Object.entries(authHeaders())) {
+    headers.set(name, value);
+  }
+  return readResponse<T>(await fetch(url, { ...init, headers }));
+}
+
+const postJson = (body: unknown): RequestInit => ({
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+  },
+  body: JSON.stringify(body)
+});
+
+function toQueryString(params: ListJobsParams): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === '') continue;
+    query.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  return query.toString();
+}
+
+// Typed client for every JSON route. Request and response shapes come from
+// the contract shared with the backend.
+export const api = {
+  getPresets: () =>
+    request<PresetsResponse>(API_ENDPOINTS.PRESETS),
+
+  getConfig: () =>
+    request<ClientConfigResponse>(API_ENDPOINTS.CONFIG),
+
+  createUploadSession: (body: CreateUploadSessionRequest) =>
+    request<UploadSessionResponse>(API_ENDPOINTS.UPLOAD_SESSIONS, postJson(body)),
+
+  getUploadSession: (sessionId: string) =>
+    request<UploadSessionResponse>(API_ENDPOINTS.UPLOAD_SESSION(sessionId)),
+
+  uploadChunk: (sessionId: string, index: number, offset: number, chunk: Blob, signal?: AbortSignal) =>
+    request<UploadChunkResponse>(API_ENDPOINTS.UPLOAD_CHUNK(sessionId, index), {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'X-Chunk-Offset': String(offset),
+      },
+      body: chunk,
+      signal
+    }),
+
+  completeUploadSession: (sessionId: string) =>
+    request<UploadAcceptedResponse>(API_ENDPOINTS.UPLOAD_COMPLETE(sessionId), { method: 'POST' }),
+
+  // Resolves if the content was already processed with this preset, rejects with a 404 otherwise
+  lookupContent: (sha256: string, preset?: TranscodePreset) =>
+    request<void>(`${API_ENDPOINTS.CONTENT(sha256)}${preset ? `?preset=${preset}` : ''}`, { method: 'HEAD' }),
+
+  reuseContent: (sha256: string, body: UploadMetadata) =>
+    request<UploadAcceptedResponse>(API_ENDPOINTS.CONTENT_JOBS(sha256), postJson(body)),
+
+  createBatch: (body: CreateBatchRequest) =>
+    request<BatchResponse>(API_ENDPOINTS.BATCHES, postJson(body)),
+
+  getBatch: (batchId: string) =>
+    request<BatchResponse>(API_ENDPOINTS.BATCH(batchId)),
+
+  listJobs: (params: ListJobsParams) =>
+    request<JobPageResponse>(`${API_ENDPOINTS.JOBS}?${toQueryString(params)}`),
+
+  getJob: (jobId: string) =>
+    request<JobResponse>(API_ENDPOINTS.STATUS(jobId)),
+
+  cancelJob: (jobId: string) =>
+    request<JobResponse>(API_ENDPOINTS.JOB_CANCEL(jobId), { method: 'POST' }),
+
+  deleteJob: (jobId: string) =>
+    request<void>(API_ENDPOINTS.JOB(jobId), { method: 'DELETE' }),
+
+  getQueue: () =>
+    request<QueueResponse>(API_ENDPOINTS.QUEUE),
+
+  // Unhealthy and draining answer 503 with the same report, so any status is
+  // read; only an unreachable backend (or a body that isn't one) rejects
+  getHealth: async () =>
+    (await fetch(API_ENDPOINTS.HEALTH)).json() as Promise<HealthResponse>,
+
+  getCurrentUser: () =>
+    request<CurrentUserResponse>(API_ENDPOINTS.ME),
+
+  listWebhooks: () =>
+    request<WebhookListResponse>(API_ENDPOINTS.WEBHOOKS),
+
+  createWebhook: (body: CreateWebhookRequest) =>
+    request<WebhookResponse>(API_ENDPOINTS.WEBHOOKS, postJson(body)),
+
+  deleteWebhook: (webhookId: string) =>
+    request<void>(API_ENDPOINTS.WEBHOOK(webhookId), { method: 'DELETE' }),
+
+  listWebhookDeliveries: (jobId?: string) =>
+    request<WebhookDeliveryListResponse>(
+      `${API_ENDPOINTS.WEBHOOK_DELIVERIES}${jobId ? `?jobId=${encodeURIComponent(jobId)}` : ''}`
+    ),
+
+  getCapturedTrace: (traceId: string) =>
+    request<CapturedTraceResponse>(API_ENDPOINTS.DEV_TRACE(traceId))
 };
 
 export default API_BASE_URL;
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { samplingPolicySchema, toFieldIssues } from 'snaptrace-shared';
+import type { SamplingPolicy } from 'snaptrace-shared';
+
+// The same policy format as the backend's SAMPLING_CONFIG, given inline as
+// VITE_SAMPLING_CONFIG. VITE_TRACES_SAMPLE_RATE overrides its default rate.
+// Unset rates keep 10% in production builds and everything in development.
+const fallbackRate = import.meta.env.PROD ? 0.1 : 1;
+
+function loadSamplingPolicy(): SamplingPolicy {
+  const defaults = samplingPolicySchema.parse({ defaultRate: fallbackRate, profilesRate: fallbackRate });
+
+  let config: Record<string, unknown> = {};
+  try {
+    config = JSON.parse(import.meta.env.VITE_SAMPLING_CONFIG || '{}');
+  } catch {
+    console.error('VITE_SAMPLING_CONFIG is not valid JSON, using the default sampling policy');
+    return defaults;
+  }
+
+  const result = samplingPolicySchema.safeParse({
+    ...defaults,
+    ...config,
+    ...(import.meta.env.VITE_TRACES_SAMPLE_RATE && { defaultRate: Number(import.meta.env.VITE_TRACES_SAMPLE_RATE) })
+  });
+  if (!result.success) {
+    // A bad policy should not take the app down with it
+    console.error('Invalid sampling policy, using the default:', toFieldIssues(result.error));
+    return defaults;
+  }
+  return result.data;
+}
+
+export const SAMPLING_POLICY = loadSamplingPolicy();
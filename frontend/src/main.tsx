@@ -1,20 +1,31 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import * as Sentry from '@sentry/react';
+import { getSampleRate } from 'snaptrace-shared';
 import App from './App';
+import { SAMPLING_POLICY } from './config/sampling';
+import { api } from './config/api';
+import { CAPTURE_DSN, TRACE_CAPTURE_ENABLED, makeCaptureTransport } from './services/traceCapture';
 import './index.css';
 
 // Initialize Sentry
 Sentry.init({
-  dsn: import.meta.env.VITE_SENTRY_DSN || 'YOUR_FRONTEND_DSN_HERE',
+  dsn: import.meta.env.VITE_SENTRY_DSN || (TRACE_CAPTURE_ENABLED ? CAPTURE_DSN : undefined),
+  // Envelopes go to the backend's dev trace store instead of Sentry
+  transport: TRACE_CAPTURE_ENABLED ? makeCaptureTransport : undefined,
   integrations: [
     Sentry.browserTracingIntegration(),
   ],
   tracePropagationTargets: ['localhost:3001'],
-  tracesSampleRate: 1.0,
+  tracesSampler: (samplingContext) => getSampleRate(SAMPLING_POLICY, samplingContext).rate,
   environment: import.meta.env.MODE
 });
 
+// Frontend spans and errors are attributed to the same user as the backend's
+api.getCurrentUser()
+  .then((user) => Sentry.setUser({ id: user.id, username: user.name }))
+  .catch((error) => console.error('Failed to load the current user:', error));
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <App />
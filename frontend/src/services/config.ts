@@ -0,0 +1,24 @@
+import type { ClientConfigResponse } from 'snaptrace-shared';
+import { api } from '../config/api';
+
+// The backend's defaults, used until /api/config answers. The backend enforces
+// its own limits either way; these only let the form reject files early.
+export const DEFAULT_CLIENT_CONFIG: ClientConfigResponse = {
+  maxUploadBytes: 50 * 1024 * 1024,
+  acceptedTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/bmp', 'image/tiff'],
+  defaultChunkBytes: 1024 * 1024,
+  minChunkBytes: 64 * 1024,
+  maxChunkBytes: 8 * 1024 * 1024,
+  maxImageDimension: 16384,
+  maxImagePixels: 50_000_000,
+  defaultPreset: 'web-optimized'
+};
+
+export function fetchClientConfig(): Promise<ClientConfigResponse> {
+  return api.getConfig();
+}
+
+// "image/jpeg" -> "JPEG"
+export function formatAcceptedTypes(types: string[]): string {
+  return types.map((type) => type.replace(/^image\//, '').toUpperCase()).join(', ');
+}
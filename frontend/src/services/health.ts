@@ -0,0 +1,43 @@
+import type { HealthCheckName, HealthResponse, HealthStatus } from 'snaptrace-shared';
+import { api } from '../config/api';
+
+export type BackendState = HealthStatus | 'unreachable';
+
+export interface BackendHealth {
+  state: BackendState;
+  report?: HealthResponse;
+}
+
+const CHECK_LABELS: Record<HealthCheckName, string> = {
+  storage: 'storage',
+  jobStore: 'job store',
+  queue: 'queue backlog',
+  eventLoop: 'event loop delay',
+  memory: 'memory'
+};
+
+// "140 jobs", "92%"
+const formatValue = (value: number, unit?: string) =>
+  unit === '%' ? `${value}%` : unit ? `${value} ${unit}` : String(value);
+
+export async function fetchBackendHealth(): Promise<BackendHealth> {
+  try {
+    const report = await api.getHealth();
+    return { state: report.status, report };
+  } catch {
+    return { state: 'unreachable' };
+  }
+}
+
+// The checks that aren't healthy, e.g. "queue backlog 140 jobs (limit 100)"
+export function describeFailingChecks(report: HealthResponse): string[] {
+  return Object.entries(report.checks)
+    .filter(([, check]) => check.status !== 'healthy')
+    .map(([name, check]) => {
+      const label = CHECK_LABELS[name as HealthCheckName] ?? name;
+      if (check.value !== undefined && check.threshold !== undefined) {
+        return `${label} ${formatValue(check.value, check.unit)} (limit ${formatValue(check.threshold, check.unit)})`;
+      }
+      return check.message ? `${label}: ${check.message}` : label;
+    });
+}
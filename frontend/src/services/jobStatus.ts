@@ -0,0 +1,142 @@
+import * as Sentry from '@sentry/react';
+import { isTerminalStatus } from 'snaptrace-shared';
+import type { JobStatusEvent } from 'snaptrace-shared';
+import { API_ENDPOINTS, ApiError, api, withAccessToken } from '../config/api';
+
+export type JobUpdate = JobStatusEvent;
+
+const POLL_INTERVAL_MS = 1500;
+const MAX_POLL_INTERVAL_MS = 30_000;
+
+// Record each transition inside the trace of the upload that created the job
+function reportUpdate(update: JobUpdate, onUpdate: (update: JobUpdate) => void) {
+  const { sentryTrace, baggage } = update.trace ?? {};
+  const report = () =>
+    Sentry.startSpan(
+      {
+        name: 'Job status update',
+        op: 'job.status_update',
+        attributes: {
+          'job.id': update.jobId,
+          'job.status': update.status,
+        }
+      },
+      () => onUpdate(update)
+    );
+
+  if (sentryTrace) {
+    Sentry.continueTrace({ sentryTrace, baggage }, report);
+  } else {
+    report();
+  }
+}
+
+interface JobListener {
+  onUpdate: (update: JobUpdate) => void;
+  onError?: (error: Error) => void;
+}
+
+interface JobWatch {
+  listeners: Set<JobListener>;
+  last?: JobUpdate;
+  close: () => void;
+}
+
+// One stream or poll loop per job, however many callers follow it
+const watches = new Map<string, JobWatch>();
+
+// A 4xx other than 429 won't go away by asking again: the job was deleted, or
+// the token isn't accepted
+const isPermanentFailure = (error: unknown): error is ApiError =>
+  error instanceof ApiError && error.status >= 400 && error.status < 500 && error.status !== 429;
+
+// Follow a job until it finishes. Streams over Server-Sent Events and falls
+// back to polling the status endpoint when streaming is unavailable. Polling
+// backs off while requests fail and gives up, calling onError, when the job
+// can't be read at all. Returns a function that stops watching.
+export function watchJob(
+  jobId: string,
+  onUpdate: (update: JobUpdate) => void,
+  onError?: (error: Error) => void
+): () => void {
+  const listener: JobListener = { onUpdate, onError };
+  let watch = watches.get(jobId);
+  if (watch) {
+    // Catch up with what the existing watch already knows
+    if (watch.last) onUpdate(watch.last);
+  } else {
+    watch = openWatch(jobId);
+    watches.set(jobId, watch);
+  }
+  watch.listeners.add(listener);
+
+  const current = watch;
+  return () => {
+    current.listeners.delete(listener);
+    if (current.listeners.size === 0) current.close();
+  };
+}
+
+function openWatch(jobId: string): JobWatch {
+  let closed = false;
+  let failures = 0;
+  let eventSource: EventSource | undefined;
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const watch: JobWatch = {
+    listeners: new Set(),
+    close: () => {
+      closed = true;
+      eventSource?.close();
+      clearTimeout(pollTimer);
+      if (watches.get(jobId) === watch) watches.delete(jobId);
+    }
+  };
+
+  const handle = (update: JobUpdate) => {
+    if (closed || update.status === watch.last?.status) return;
+    watch.last = update;
+    reportUpdate(update, (reported) => watch.listeners.forEach((listener) => listener.onUpdate(reported)));
+    if (isTerminalStatus(update.status)) watch.close();
+  };
+
+  const poll = async () => {
+    try {
+      handle(await api.getJob(jobId));
+      failures = 0;
+    } catch (error) {
+      if (isPermanentFailure(error)) {
+        console.error(`Stopped watching job ${jobId}:`, error);
+        watch.close();
+        watch.listeners.forEach((listener) => listener.onError?.(error));
+        return;
+      }
+      console.error('Status poll failed:', error);
+      failures++;
+    }
+    if (!closed) {
+      pollTimer = setTimeout(poll, Math.min(POLL_INTERVAL_MS * 2 ** failures, MAX_POLL_INTERVAL_MS));
+    }
+  };
+
+  if (typeof EventSource === 'undefined') {
+    void poll();
+    return watch;
+  }
+
+  eventSource = new EventSource(withAccessToken(API_ENDPOINTS.JOB_EVENTS(jobId)));
+  eventSource.addEventListener('status', (event) => {
+    handle(JSON.parse((event as MessageEvent).data));
+  });
+  eventSource.onerror = () => {
+    // The server closes the stream after the final status; anything else
+    // means streaming is broken (or the job is gone), so switch to polling,
+    // which can tell the two apart
+    eventSource?.close();
+    if (!closed) {
+      void poll();
+    }
+  };
+
+  return watch;
+}
@@ -0,0 +1,60 @@
+import type { JobFileVariant, JobPageResponse, JobResponse, ListJobsParams } from 'snaptrace-shared';
+import { API_ENDPOINTS, ApiError, api, authHeaders, withAccessToken } from '../config/api';
+
+// For <img src>, so the token travels in the URL
+export const getJobFileUrl = (jobId: string, variant: JobFileVariant) =>
+  withAccessToken(API_ENDPOINTS.JOB_FILE(jobId, variant));
+
+export function listJobs(params: ListJobsParams): Promise<JobPageResponse> {
+  return api.listJobs(params);
+}
+
+export function fetchJob(jobId: string): Promise<JobResponse> {
+  return api.getJob(jobId);
+}
+
+// Fetch the processed file and hand it to the browser as a download.
+// Resolves with the number of bytes downloaded.
+export async function downloadProcessedFile(jobId: string, fallbackName: string): Promise<number> {
+  const response = await fetch(`${API_ENDPOINTS.JOB_FILE(jobId, 'processed')}?download`, { headers: authHeaders() });
+  if (!response.ok) {
+    throw new Error(`Download failed: ${response.statusText}`);
+  }
+
+  const blob = await response.blob();
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] ?? fallbackName;
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+
+  return blob.size;
+}
+
+// Stop a job that is still queued or processing. Resolves with the job as it
+// ended up, which may be finished if it got there first.
+export async function cancelJob(jobId: string): Promise<JobResponse> {
+  try {
+    return await api.cancelJob(jobId);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 409) {
+      return api.getJob(jobId);
+    }
+    throw error;
+  }
+}
+
+export async function deleteJob(jobId: string): Promise<void> {
+  try {
+    await api.deleteJob(jobId);
+  } catch (error) {
+    // Already gone is as good as deleted
+    if (!(error instanceof ApiError && error.status === 404)) {
+      throw error;
+    }
+  }
+}
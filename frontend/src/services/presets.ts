@@ -0,0 +1,8 @@
+import type { PresetsResponse } from 'snaptrace-shared';
+import { api } from '../config/api';
+
+export type PresetOption = PresetsResponse['presets'][number];
+
+export function fetchPresets(): Promise<PresetsResponse> {
+  return api.getPresets();
+}
@@ -0,0 +1,17 @@
+import * as Sentry from '@sentry/react';
+import { API_ENDPOINTS } from '../config/api';
+
+// Without a DSN in development, envelopes are posted to the backend's local
+// trace store instead of Sentry, and the Trace panel reads them back.
+// VITE_TRACE_CAPTURE (local or off) overrides the default.
+export const TRACE_CAPTURE_ENABLED = import.meta.env.VITE_TRACE_CAPTURE
+  ? import.meta.env.VITE_TRACE_CAPTURE === 'local'
+  : !import.meta.env.VITE_SENTRY_DSN && import.meta.env.DEV;
+
+// Sentry only sends events when it has a DSN; nothing is sent to this one
+export const CAPTURE_DSN = 'http://snaptrace@localhost/0';
+
+// Sentry's own fetch transport, pointed at the backend. It uses the
+// uninstrumented fetch, so posting envelopes creates no spans of its own.
+export const makeCaptureTransport = (options: Parameters<typeof Sentry.makeFetchTransport>[0]) =>
+  Sentry.makeFetchTransport({ ...options, url: API_ENDPOINTS.DEV_ENVELOPES });
@@ -0,0 +1,224 @@
+import * as Sentry from '@sentry/react';
+import type { Span } from '@sentry/react';
+import { CANCELLED_SPAN_STATUS } from 'snaptrace-shared';
+import type { ErrorResponse, TranscodePreset, UploadAcceptedResponse, UploadSessionResponse } from 'snaptrace-shared';
+import { API_ENDPOINTS, ApiError, api, authHeaders, toApiError } from '../config/api';
+import { sha256Hex } from '../utils/hash';
+
+export type UploadResponse = UploadAcceptedResponse;
+
+// Send the file as multipart/form-data. XMLHttpRequest is used instead of
+// fetch because it is the only browser API that reports upload progress.
+export function uploadFile(
+  file: File,
+  onProgress: (percent: number) => void,
+  preset?: TranscodePreset,
+  signal?: AbortSignal
+): Promise<UploadResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('fileName', file.name);
+    formData.append('fileType', file.type);
+    formData.append('fileSize', String(file.size));
+    if (preset) {
+      formData.append('preset', preset);
+    }
+    formData.append('file', file);
+
+    const xhr = new XMLHttpRequest();
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+
+    xhr.onload = () => {
+      let body: Partial<ErrorResponse> = {};
+      try {
+        body = JSON.parse(xhr.responseText);
+      } catch {
+        // Non-JSON responses fall through to the status text below
+      }
+
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(body as UploadResponse);
+      } else {
+        reject(toApiError(xhr.status, xhr.statusText, body));
+      }
+    };
+
+    xhr.onerror = () => reject(new ApiError('Upload failed: network error', 0));
+    xhr.onabort = () => reject(signal?.reason ?? new DOMException('Upload cancelled', 'AbortError'));
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+
+    xhr.open('POST', API_ENDPOINTS.UPLOAD);
+    for (const [name, value] of Object.entries(authHeaders())) {
+      xhr.setRequestHeader(name, value);
+    }
+    xhr.send(formData);
+  });
+}
+
+// Chunked upload configuration. The chunk size comes from the backend's
+// /api/config, as defaultChunkBytes.
+const MAX_CHUNK_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 500;
+
+export interface ChunkedUploadResponse extends UploadResponse {
+  resumed: boolean;
+  totalChunks: number;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Keyed by file identity so re-selecting the same file after a page reload
+// continues the existing session instead of starting over
+const getResumeKey = (file: File) =>
+  `snaptrace:upload:${file.name}:${file.size}:${file.lastModified}`;
+
+async function openSession(file: File, chunkSize: number, preset?: TranscodePreset): Promise<{ session: UploadSessionResponse; resumed: boolean }> {
+  const resumeKey = getResumeKey(file);
+  const existingId = localStorage.getItem(resumeKey);
+
+  if (existingId) {
+    try {
+      return { session: await api.getUploadSession(existingId), resumed: true };
+    } catch {
+      // Expired or unknown; start a new session below
+      localStorage.removeItem(resumeKey);
+    }
+  }
+
+  const session = await api.createUploadSession({
+    fileName: file.name,
+    fileType: file.type,
+    fileSize: file.size,
+    preset,
+    chunkSize
+  });
+
+  localStorage.setItem(resumeKey, session.sessionId);
+  return { session, resumed: false };
+}
+
+// Each chunk gets its own span so per-chunk latency and retries are visible
+async function uploadChunk(
+  file: File,
+  session: UploadSessionResponse,
+  index: number,
+  parentSpan?: Span,
+  signal?: AbortSignal
+) {
+  const offset = index * session.chunkSize;
+  const chunk = file.slice(offset, offset + session.chunkSize);
+
+  await Sentry.startSpan(
+    {
+      name: 'Upload chunk',
+      op: 'file.upload.chunk',
+      parentSpan,
+      attributes: {
+        'chunk.index': index,
+        'chunk.offset': offset,
+        'chunk.size_bytes': chunk.size,
+      }
+    },
+    async (span) => {
+      for (let attempt = 1; ; attempt++) {
+        span?.setAttribute('chunk.attempts', attempt);
+        try {
+          await api.uploadChunk(session.sessionId, index, offset, chunk, signal);
+          return;
+        } catch (error) {
+          if (signal?.aborted) {
+            span?.setStatus(CANCELLED_SPAN_STATUS);
+            throw error;
+          }
+          if (attempt >= MAX_CHUNK_ATTEMPTS) {
+            throw error;
+          }
+          await delay(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+        }
+      }
+    }
+  );
+}
+
+// Split the file into chunks, skipping any the server already has, and
+// finalize the session into a processing job. chunkSize is only a request;
+// a resumed session keeps the size it was opened with.
+export async function uploadFileInChunks(
+  file: File,
+  chunkSize: number,
+  onProgress: (percent: number) => void,
+  preset?: TranscodePreset,
+  parentSpan?: Span,
+  signal?: AbortSignal
+): Promise<ChunkedUploadResponse> {
+  const { session, resumed } = await openSession(file, chunkSize, preset);
+  const received = new Set(session.receivedChunks);
+  const reportProgress = () => onProgress(Math.round((received.size / session.totalChunks) * 100));
+
+  reportProgress();
+
+  for (let index = 0; index < session.totalChunks; index++) {
+    if (received.has(index)) continue;
+    // Cancelling keeps the session, so the same file can resume later
+    signal?.throwIfAborted();
+    await uploadChunk(file, session, index, parentSpan, signal);
+    received.add(index);
+    reportProgress();
+  }
+
+  const result = await api.completeUploadSession(session.sessionId);
+
+  localStorage.removeItem(getResumeKey(file));
+  return { ...result, resumed, totalChunks: session.totalChunks };
+}
+
+// Look the file up by content hash before sending it. `reused` is the new job
+// when identical content was already processed with this preset. Lookup is
+// only an optimisation, so any failure just means uploading as usual.
+export async function findExistingUpload(
+  file: File,
+  preset?: TranscodePreset
+): Promise<{ sha256?: string; reused?: UploadResponse }> {
+  const sha256 = await sha256Hex(file);
+  if (!sha256) return {};
+
+  try {
+    await api.lookupContent(sha256, preset);
+    const reused = await api.reuseContent(sha256, {
+      fileName: file.name,
+      fileType: file.type,
+      fileSize: file.size,
+      preset
+    });
+    return { sha256, reused };
+  } catch (error) {
+    if (!(error instanceof ApiError && error.status === 404)) {
+      console.warn('Duplicate lookup failed, uploading instead:', error);
+    }
+    return { sha256 };
+  }
+}
+
+// Files from one selection are sent a few at a time
+export const UPLOAD_CONCURRENCY = 3;
+
+// Run at most `limit` tasks at a time, in order, until every item is handled
+export async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>) {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
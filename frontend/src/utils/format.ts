@@ -0,0 +1,12 @@
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  return (bytes / 1024 / 1024).toFixed(1) + ' MB';
+};
+
+// How long until something can be retried: "45s", "12 min", "5h 3m"
+export const formatWait = (seconds: number) => {
+  if (seconds < 60) return `${Math.ceil(seconds)}s`;
+  if (seconds < 60 * 60) return `${Math.ceil(seconds / 60)} min`;
+  return `${Math.floor(seconds / 3600)}h ${Math.ceil((seconds % 3600) / 60)}m`;
+};
@@ -0,0 +1,8 @@
+// SHA-256 of the file contents as lowercase hex. Web Crypto only exists in
+// secure contexts (https or localhost), so this can resolve to undefined.
+export async function sha256Hex(file: File): Promise<string | undefined> {
+  if (!globalThis.crypto?.subtle) return undefined;
+
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -2,6 +2,10 @@
 
 interface ImportMetaEnv {
   readonly VITE_SENTRY_DSN: string
+  readonly VITE_API_TOKEN?: string
+  readonly VITE_TRACE_CAPTURE?: 'local' | 'off'
+  readonly VITE_SAMPLING_CONFIG?: string
+  readonly VITE_TRACES_SAMPLE_RATE?: string
   // Add other env variables here as needed
 }
 
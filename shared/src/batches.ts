@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import type { JobResponse, JobStatus } from './jobs';
+
+export const MAX_BATCH_SIZE = 100;
+
+// POST /api/batches
+export const createBatchRequestSchema = z.object({
+  jobIds: z
+    .array(z.string().min(1))
+    .min(1, 'A batch needs at least one job')
+    .max(MAX_BATCH_SIZE, `A batch holds at most ${MAX_BATCH_SIZE} jobs`)
+});
+export type CreateBatchRequest = z.infer<typeof createBatchRequestSchema>;
+
+// processing: some jobs are still running. Otherwise completed when every
+// job completed, failed when none did, partial in between.
+export type BatchStatus = 'processing' | 'completed' | 'partial' | 'failed';
+
+// POST /api/batches, GET /api/batches/:batchId
+export interface BatchResponse {
+  batchId: string;
+  status: BatchStatus;
+  jobCount: number;
+  counts: Partial<Record<JobStatus, number>>;
+  createdAt: string;
+  completedAt?: string;
+  jobs: JobResponse[];
+}
@@ -0,0 +1,26 @@
+import type { ZodError, ZodType, ZodTypeDef } from 'zod';
+
+// One problem with one field of a request
+export interface FieldIssue {
+  field: string;
+  message: string;
+}
+
+// Body of every 4xx/5xx JSON response. `issues` is set when request
+// validation failed and lists every field that was rejected.
+export interface ErrorResponse {
+  error: string;
+  issues?: FieldIssue[];
+  // 429 only: the same value as the Retry-After header
+  retryAfterSeconds?: number;
+}
+
+export function toFieldIssues(error: ZodError): FieldIssue[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.join('.') || '(root)',
+    message: issue.message
+  }));
+}
+
+// Any schema that parses untrusted request input into T
+export type RequestSchema<T> = ZodType<T, ZodTypeDef, unknown>;
@@ -0,0 +1,13 @@
+// Request schemas and response types for every SnapTrace API route.
+// Requests are validated at runtime by the backend; responses are types only.
+// The sampling policy and the cancelled span status live here too, since both
+// SDKs use them.
+export * from './errors';
+export * from './uploads';
+export * from './jobs';
+export * from './batches';
+export * from './webhooks';
+export * from './system';
+export * from './traces';
+export * from './spanStatus';
+export * from './sampling';
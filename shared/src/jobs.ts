@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import type { TranscodePreset } from './uploads';
+
+export const JOB_STATUSES = ['pending', 'processing', 'completed', 'failed', 'rejected', 'cancelled'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+// No further status transitions will happen
+export const isTerminalStatus = (status: JobStatus) =>
+  status === 'completed' || status === 'failed' || status === 'rejected' || status === 'cancelled';
+
+export const JOB_FILE_VARIANTS = ['original', 'processed', 'thumbnail'] as const;
+export type JobFileVariant = typeof JOB_FILE_VARIANTS[number];
+
+export const JOB_SORT_FIELDS = ['createdAt', 'fileSize', 'fileName'] as const;
+export type JobSortField = typeof JOB_SORT_FIELDS[number];
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Why the content scan refused a file. Rejected jobs are never retried.
+export const SCAN_REJECTION_REASONS = [
+  'unsupported_format',
+  'format_mismatch',
+  'polyglot',
+  'embedded_script',
+  'unreadable_dimensions',
+  'dimensions_exceeded',
+  'malware_detected'
+] as const;
+export type ScanRejectionReason = typeof SCAN_REJECTION_REASONS[number];
+
+export interface ScanSummary {
+  verdict: 'clean' | 'rejected';
+  reason?: ScanRejectionReason;
+  scanner: string;
+  findings: string[];
+}
+
+export interface JobResult {
+  optimized: boolean;
+  thumbnailCreated: boolean;
+  sizeSaved?: number;
+  width?: number;
+  height?: number;
+  outputFormat?: string;
+  outputSize?: number;
+  outputWidth?: number;
+  outputHeight?: number;
+  thumbnailSize?: number;
+  scan?: ScanSummary;
+  error?: string;
+}
+
+// GET /api/status/:jobId, and each item of GET /api/jobs
+export interface JobResponse {
+  jobId: string;
+  status: JobStatus;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  preset: TranscodePreset;
+  batchId?: string;
+  // Earlier job with identical content whose results this job reuses
+  dedupedFrom?: string;
+  // Trace of the upload that created the job
+  traceId?: string;
+  attempts: number;
+  createdAt: string;
+  completedAt?: string;
+  result?: JobResult;
+}
+
+// Payload of each `status` event on GET /api/jobs/:jobId/events
+export interface JobStatusEvent extends JobResponse {
+  trace?: {
+    sentryTrace?: string;
+    baggage?: string;
+  };
+}
+
+// GET /api/jobs query string
+export const listJobsQuerySchema = z.object({
+  status: z
+    .string()
+    .optional()
+    .transform((value) => (value ? value.split(',') : undefined))
+    .pipe(z.array(z.enum(JOB_STATUSES)).optional()),
+  mimeType: z.string().optional(),
+  batchId: z.string().optional(),
+  createdAfter: z.coerce.date().optional(),
+  createdBefore: z.coerce.date().optional(),
+  sort: z.enum(JOB_SORT_FIELDS).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE),
+  cursor: z.string().optional()
+});
+export type ListJobsQuery = z.output<typeof listJobsQuerySchema>;
+
+// The same query as the client builds it, before it is encoded into the URL
+export interface ListJobsParams {
+  status?: JobStatus[];
+  mimeType?: string;
+  batchId?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  sort?: JobSortField;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+// GET /api/jobs
+export interface JobPageResponse {
+  jobs: JobResponse[];
+  total: number;
+  nextCursor: string | null;
+}
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import { SIZE_BUCKETS, SizeBucket, getSizeBucket } from './uploads';
+
+// Trace sampling policy, evaluated by the tracesSampler of both the backend
+// and the browser SDK. Loaded from SAMPLING_CONFIG (a JSON file) on the
+// backend and VITE_SAMPLING_CONFIG (inline JSON) in the frontend.
+const sampleRateSchema = z.number().min(0).max(1);
+
+// Matches a span by name, op or both. Names are globs where "*" stays within
+// one path segment and "**" does not, e.g. "GET /api/jobs/*/events".
+const samplingRuleSchema = z.object({
+  name: z.string().min(1).optional(),
+  op: z.string().min(1).optional(),
+  rate: sampleRateSchema
+}).refine((rule) => rule.name || rule.op, 'A rule needs a name, an op or both');
+
+export const samplingPolicySchema = z.object({
+  // Rate for spans no rule matches
+  defaultRate: sampleRateSchema,
+  // Share of sampled transactions that are also profiled (backend only)
+  profilesRate: sampleRateSchema,
+  // Follow the caller's decision from sentry-trace/baggage when there is one
+  honorUpstream: z.boolean().default(true),
+  // First matching rule wins
+  routes: z.array(samplingRuleSchema).default([]),
+  // Raise the rate by media size, e.g. { "large": 1 }
+  sizeBuckets: z.record(z.enum(SIZE_BUCKETS), sampleRateSchema).default({}),
+  // Kept regardless of any rate or upstream decision
+  alwaysSample: z.object({
+    // Processing attempts after a failed one
+    retries: z.boolean().default(true),
+    // Jobs that waited at least this long for a worker
+    slowQueueMs: z.number().int().positive().optional()
+  }).default({})
+}).strict();
+export type SamplingPolicy = z.output<typeof samplingPolicySchema>;
+
+// What a tracesSampler is given, minus the SDK-specific parts
+export interface SamplingInput {
+  name: string;
+  attributes?: Record<string, unknown>;
+  parentSampled?: boolean;
+  parentSampleRate?: number;
+}
+
+export interface SamplingDecision {
+  rate: number;
+  // Which part of the policy decided, e.g. "route:GET /api/health"
+  reason: string;
+}
+
+const globs = new Map<string, RegExp>();
+
+function matchesGlob(glob: string, value: string): boolean {
+  let pattern = globs.get(glob);
+  if (!pattern) {
+    const source = glob
+      .split('**')
+      .map((part) => part.split('*').map((text) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+      .join('.*');
+    pattern = new RegExp(`^${source}$`);
+    globs.set(glob, pattern);
+  }
+  return pattern.test(value);
+}
+
+// media.process carries its bucket; uploads only have a byte count, from the
+// browser's file.upload span or the request's Content-Length on the server
+function getSpanSizeBucket(attributes: Record<string, unknown>): SizeBucket | undefined {
+  const bucket = attributes['media.size_bucket'];
+  if (typeof bucket === 'string' && (SIZE_BUCKETS as readonly string[]).includes(bucket)) {
+    return bucket as SizeBucket;
+  }
+
+  const bytes = attributes['file.size_bytes'] ?? attributes['media.size_bytes'] ?? attributes['http.request_content_length_uncompressed'];
+  return typeof bytes === 'number' ? getSizeBucket(bytes) : undefined;
+}
+
+// Sampling happens when a root span starts, so outcomes that are only known
+// later (a failed or slow upload) can't be used. Retries and queue waits are
+// known when media.process starts, which is how failed and slow jobs are kept.
+export function getSampleRate(policy: SamplingPolicy, input: SamplingInput): SamplingDecision {
+  const attributes = input.attributes ?? {};
+  const { alwaysSample } = policy;
+
+  if (alwaysSample.retries && Number(attributes['job.attempt']) > 1) {
+    return { rate: 1, reason: 'always:retry' };
+  }
+  if (alwaysSample.slowQueueMs !== undefined && Number(attributes['queue.wait_ms']) >= alwaysSample.slowQueueMs) {
+    return { rate: 1, reason: 'always:slow_queue' };
+  }
+
+  // Same precedence as Sentry's inheritOrSampleWith: the upstream rate keeps
+  // the decision consistent with the propagated sample_rand
+  if (policy.honorUpstream) {
+    if (input.parentSampleRate !== undefined) {
+      return { rate: input.parentSampleRate, reason: 'upstream' };
+    }
+    if (input.parentSampled !== undefined) {
+      return { rate: Number(input.parentSampled), reason: 'upstream' };
+    }
+  }
+
+  const op = attributes['sentry.op'];
+  const route = policy.routes.find((rule) =>
+    (!rule.name || matchesGlob(rule.name, input.name)) && (!rule.op || rule.op === op)
+  );
+  let decision: SamplingDecision = route
+    ? { rate: route.rate, reason: `route:${[route.op, route.name].filter(Boolean).join(' ')}` }
+    : { rate: policy.defaultRate, reason: 'default' };
+
+  // Size buckets only ever raise the rate
+  const bucket = getSpanSizeBucket(attributes);
+  const bucketRate = bucket && policy.sizeBuckets[bucket];
+  if (bucketRate !== undefined && bucketRate > decision.rate) {
+    decision = { rate: bucketRate, reason: `size:${bucket}` };
+  }
+
+  return decision;
+}
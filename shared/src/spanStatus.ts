@@ -0,0 +1,2 @@
+// Status of a span whose upload or job was cancelled; Sentry shows it as "cancelled"
+export const CANCELLED_SPAN_STATUS = { code: 2, message: 'cancelled' } as const;
@@ -0,0 +1,77 @@
+import type { TranscodePreset } from './uploads';
+
+// GET /api/presets
+export interface PresetsResponse {
+  defaultPreset: TranscodePreset;
+  presets: {
+    id: TranscodePreset;
+    label: string;
+    description: string;
+    maxWidth: number;
+    maxHeight: number;
+    quality: number;
+    outputFormat: string;
+    thumbnailSize: number;
+    skipOptimization: boolean;
+  }[];
+}
+
+// GET /api/config - the limits clients should check before uploading
+export interface ClientConfigResponse {
+  maxUploadBytes: number;
+  acceptedTypes: string[];
+  defaultChunkBytes: number;
+  minChunkBytes: number;
+  maxChunkBytes: number;
+  maxImageDimension: number;
+  maxImagePixels: number;
+  defaultPreset: TranscodePreset;
+}
+
+// GET /api/queue
+export interface QueueResponse {
+  concurrency: number;
+  maxAttempts: number;
+  running: number;
+  depth: number;
+  delayed: number;
+  deadLettered: number;
+  deadLetteredJobs: {
+    jobId: string;
+    fileName: string;
+    attempts: number;
+    deadLetteredAt?: string;
+    error?: string;
+  }[];
+}
+
+// GET /api/me
+export interface CurrentUserResponse {
+  id: string;
+  name?: string;
+}
+
+// degraded: still serving, but a check is over its threshold; unhealthy: a
+// dependency failed; draining: a shutdown has begun
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy' | 'draining';
+
+export type HealthCheckName = 'storage' | 'jobStore' | 'queue' | 'eventLoop' | 'memory';
+
+export interface HealthCheckResult {
+  status: Exclude<HealthStatus, 'draining'>;
+  message?: string;
+  // What was measured, and the threshold above which the check is degraded
+  value?: number;
+  threshold?: number;
+  unit?: string;
+}
+
+// GET /api/health, /api/health/live and /api/health/ready. Each runs its own
+// set of checks; the status is the worst of them.
+export interface HealthResponse {
+  app: string;
+  status: HealthStatus;
+  timestamp: string;
+  uptimeSeconds: number;
+  checks: Partial<Record<HealthCheckName, HealthCheckResult>>;
+}
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+
+// Spans captured by the local dev transport instead of being sent to Sentry.
+// Only served when trace capture is enabled on the backend.
+export const SPAN_SOURCES = ['frontend', 'backend'] as const;
+export type SpanSource = typeof SPAN_SOURCES[number];
+
+export interface CapturedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  op?: string;
+  source: SpanSource;
+  // Unix timestamps in seconds, as Sentry reports them
+  startTimestamp: number;
+  endTimestamp: number;
+  status?: string;
+  attributes: Record<string, unknown>;
+}
+
+// GET /api/dev/traces/:traceId
+export const capturedTraceRequestSchema = z.object({
+  traceId: z.string().regex(/^[0-9a-f]{32}$/, 'traceId must be 32 lowercase hex characters')
+});
+export type CapturedTraceRequest = z.infer<typeof capturedTraceRequestSchema>;
+
+export interface CapturedTraceResponse {
+  traceId: string;
+  spans: CapturedSpan[];
+}
+
+// GET /api/dev/traces - most recently updated first
+export interface CapturedTraceListResponse {
+  traces: {
+    traceId: string;
+    name: string;
+    op?: string;
+    sources: SpanSource[];
+    spanCount: number;
+    startTimestamp: number;
+    durationMs: number;
+  }[];
+}
@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import { webhookUrlSchema } from './webhooks';
+
+export const TRANSCODE_PRESETS = ['web-optimized', 'mobile', 'high-quality', 'thumbnail-only'] as const;
+export type TranscodePreset = typeof TRANSCODE_PRESETS[number];
+
+// Coarse file size classes, used for the media.size_bucket span attribute,
+// metric labels and sampling rules
+export const SIZE_BUCKETS = ['small', 'medium', 'large'] as const;
+export type SizeBucket = typeof SIZE_BUCKETS[number];
+
+export function getSizeBucket(fileSize: number): SizeBucket {
+  if (fileSize > 10 * 1024 * 1024) return 'large';
+  if (fileSize > 1024 * 1024) return 'medium';
+  return 'small';
+}
+
+// What the client says about the file it is sending. Single-shot uploads
+// carry it as form fields or X-File-* headers, upload sessions as JSON.
+export const uploadMetadataSchema = z.object({
+  fileName: z.string().trim().min(1, 'fileName is required'),
+  fileType: z.string().startsWith('image/', 'Only images are supported'),
+  fileSize: z.number({ invalid_type_error: 'fileSize must be a number' }).int().positive('fileSize must be greater than 0'),
+  preset: z.enum(TRANSCODE_PRESETS).optional(),
+  // Notified when the job finishes processing, see WebhookPayload
+  callbackUrl: webhookUrlSchema.optional()
+});
+export type UploadMetadata = z.infer<typeof uploadMetadataSchema>;
+
+// POST /api/uploads
+export const createUploadSessionRequestSchema = uploadMetadataSchema.extend({
+  chunkSize: z.number().int().positive().optional()
+});
+export type CreateUploadSessionRequest = z.infer<typeof createUploadSessionRequestSchema>;
+
+// PUT /api/uploads/:sessionId/chunks/:index
+export const uploadChunkRequestSchema = z.object({
+  index: z.coerce.number().int().nonnegative(),
+  offset: z.coerce.number({ invalid_type_error: 'X-Chunk-Offset header is required' }).int().nonnegative()
+});
+export type UploadChunkRequest = z.infer<typeof uploadChunkRequestSchema>;
+
+// SHA-256 of the file contents as lowercase hex, the key for deduplication
+export const contentHashSchema = z.string().regex(/^[0-9a-f]{64}$/, 'Expected a lowercase hex SHA-256 digest');
+
+// HEAD /api/content/:sha256
+export const contentLookupRequestSchema = z.object({
+  sha256: contentHashSchema,
+  preset: z.enum(TRANSCODE_PRESETS).optional()
+});
+export type ContentLookupRequest = z.infer<typeof contentLookupRequestSchema>;
+
+// POST /api/content/:sha256/jobs - the same metadata an upload would carry
+export const reuseContentRequestSchema = uploadMetadataSchema.extend({
+  sha256: contentHashSchema
+});
+export type ReuseContentRequest = z.infer<typeof reuseContentRequestSchema>;
+
+// POST /api/upload, POST /api/uploads/:sessionId/complete, POST /api/content/:sha256/jobs
+export interface UploadAcceptedResponse {
+  jobId: string;
+  status: 'accepted';
+  message: string;
+  // Identical content was already processed with this preset and its results were reused
+  deduplicated?: boolean;
+}
+
+// POST /api/uploads, GET /api/uploads/:sessionId
+export interface UploadSessionResponse {
+  sessionId: string;
+  fileName: string;
+  fileSize: number;
+  preset?: TranscodePreset;
+  chunkSize: number;
+  totalChunks: number;
+  receivedChunks: number[];
+  expiresAt: string;
+}
+
+// PUT /api/uploads/:sessionId/chunks/:index
+export interface UploadChunkResponse {
+  index: number;
+  bytesReceived: number;
+  receivedChunks: number;
+  totalChunks: number;
+}
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import type { JobResponse } from './jobs';
+
+// Where job notifications are POSTed, per upload (callbackUrl) or for every
+// job of the account (POST /api/webhooks)
+export const webhookUrlSchema = z
+  .string()
+  .url('Expected an absolute URL')
+  .refine((url) => /^https?:\/\//i.test(url), 'Only http and https URLs are supported');
+
+// A job reached one of these through processing
+export const WEBHOOK_EVENTS = ['job.completed', 'job.failed', 'job.rejected'] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+// The body of every delivery. It is signed with the account's signing secret:
+// X-SnapTrace-Signature is "sha256=" + hex HMAC-SHA256 of
+// `${X-SnapTrace-Timestamp}.${body}`.
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  job: JobResponse;
+}
+
+// POST /api/webhooks
+export const createWebhookRequestSchema = z.object({
+  url: webhookUrlSchema
+});
+export type CreateWebhookRequest = z.infer<typeof createWebhookRequestSchema>;
+
+// POST /api/webhooks, and each item of GET /api/webhooks
+export interface WebhookResponse {
+  webhookId: string;
+  url: string;
+  createdAt: string;
+}
+
+// GET /api/webhooks
+export interface WebhookListResponse {
+  // Verifies the signature of every delivery to this account's URLs
+  signingSecret: string;
+  webhooks: WebhookResponse[];
+}
+
+// GET /api/webhooks/deliveries
+export const listWebhookDeliveriesQuerySchema = z.object({
+  jobId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+});
+export type ListWebhookDeliveriesQuery = z.infer<typeof listWebhookDeliveriesQuerySchema>;
+
+// pending: waiting for its next attempt; failed: out of attempts
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: string;
+  durationMs: number;
+  // Missing when no response came back (timeout, refused connection)
+  statusCode?: number;
+  error?: string;
+}
+
+export interface WebhookDeliveryResponse {
+  deliveryId: string;
+  event: WebhookEvent;
+  jobId: string;
+  url: string;
+  // callback: the upload's callbackUrl; account: a URL from POST /api/webhooks
+  source: 'callback' | 'account';
+  status: WebhookDeliveryStatus;
+  createdAt: string;
+  nextAttemptAt?: string;
+  attempts: WebhookDeliveryAttempt[];
+  traceId?: string;
+}
+
+// GET /api/webhooks/deliveries, newest first
+export interface WebhookDeliveryListResponse {
+  deliveries: WebhookDeliveryResponse[];
+}
@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { getSampleRate, samplingPolicySchema, SamplingInput } from '../src/sampling';
+
+const MB = 1024 * 1024;
+
+// The policy from backend/sampling.example.json
+const policy = samplingPolicySchema.parse({
+  defaultRate: 0.1,
+  profilesRate: 0.05,
+  routes: [
+    { name: 'GET /api/health**', rate: 0 },
+    { name: 'GET /api/metrics', rate: 0 },
+    { name: '* /api/jobs/*/events', rate: 0.01 },
+    { op: 'http.server', name: 'POST /api/upload', rate: 0.5 }
+  ],
+  sizeBuckets: { large: 1 },
+  alwaysSample: { slowQueueMs: 10000 }
+});
+
+const request = (method: string, route: string, contentLength?: number): SamplingInput => ({
+  name: `${method} ${route}`,
+  attributes: { 'sentry.op': 'http.server', 'http.request_content_length_uncompressed': contentLength }
+});
+
+const processing = (sizeBytes: number, attempt: number, queueWaitMs: number): SamplingInput => ({
+  name: 'Process media',
+  attributes: { 'sentry.op': 'media.process', 'media.size_bytes': sizeBytes, 'job.attempt': attempt, 'queue.wait_ms': queueWaitMs }
+});
+
+describe('getSampleRate', () => {
+  describe('route globs', () => {
+    it('matches an exact route', () => {
+      assert.deepEqual(getSampleRate(policy, request('GET', '/api/metrics')), { rate: 0, reason: 'route:GET /api/metrics' });
+    });
+
+    it('lets ** cross path segments', () => {
+      assert.equal(getSampleRate(policy, request('GET', '/api/health')).reason, 'route:GET /api/health**');
+      assert.equal(getSampleRate(policy, request('GET', '/api/health/ready')).reason, 'route:GET /api/health**');
+    });
+
+    it('keeps * within one path segment', () => {
+      assert.equal(getSampleRate(policy, request('GET', '/api/jobs/1234/events')).rate, 0.01);
+      assert.deepEqual(getSampleRate(policy, request('GET', '/api/jobs/1234/files/events')), { rate: 0.1, reason: 'default' });
+    });
+
+    it('treats other regex characters literally', () => {
+      const dotted = samplingPolicySchema.parse({ defaultRate: 0, profilesRate: 0, routes: [{ name: 'GET /a.b', rate: 1 }] });
+      assert.equal(getSampleRate(dotted, { name: 'GET /a.b' }).rate, 1);
+      assert.equal(getSampleRate(dotted, { name: 'GET /axb' }).rate, 0);
+    });
+
+    it('needs the op to match as well when a rule has one', () => {
+      const input = { name: 'POST /api/upload', attributes: { 'sentry.op': 'http.client' } };
+      assert.deepEqual(getSampleRate(policy, input), { rate: 0.1, reason: 'default' });
+      assert.equal(getSampleRate(policy, request('POST', '/api/upload', 1024)).reason, 'route:http.server POST /api/upload');
+    });
+
+    it('uses the first matching rule', () => {
+      const ordered = samplingPolicySchema.parse({
+        defaultRate: 0,
+        profilesRate: 0,
+        routes: [{ name: 'GET /api/**', rate: 0.2 }, { name: 'GET /api/jobs', rate: 1 }]
+      });
+      assert.equal(getSampleRate(ordered, request('GET', '/api/jobs')).rate, 0.2);
+    });
+
+    it('falls back to the default rate', () => {
+      assert.deepEqual(getSampleRate(policy, request('GET', '/api/jobs')), { rate: 0.1, reason: 'default' });
+    });
+  });
+
+  describe('upstream decisions', () => {
+    it('takes the caller\'s sample rate over any route', () => {
+      const input = { ...request('GET', '/api/metrics'), parentSampled: true, parentSampleRate: 0.25 };
+      assert.deepEqual(getSampleRate(policy, input), { rate: 0.25, reason: 'upstream' });
+    });
+
+    it('follows a caller\'s decision that came without a rate', () => {
+      assert.equal(getSampleRate(policy, { ...request('GET', '/api/jobs'), parentSampled: true }).rate, 1);
+      assert.equal(getSampleRate(policy, { ...request('GET', '/api/jobs'), parentSampled: false }).rate, 0);
+    });
+
+    it('wins over size buckets', () => {
+      const input = { ...request('POST', '/api/upload', 20 * MB), parentSampled: false, parentSampleRate: 0.25 };
+      assert.deepEqual(getSampleRate(policy, input), { rate: 0.25, reason: 'upstream' });
+    });
+
+    it('is ignored when honorUpstream is off', () => {
+      const local = samplingPolicySchema.parse({ defaultRate: 0.3, profilesRate: 0, honorUpstream: false });
+      assert.deepEqual(getSampleRate(local, { name: 'GET /api/jobs', parentSampled: true, parentSampleRate: 1 }), {
+        rate: 0.3,
+        reason: 'default'
+      });
+    });
+  });
+
+  describe('size buckets', () => {
+    it('raises the rate for large uploads', () => {
+      assert.deepEqual(getSampleRate(policy, request('POST', '/api/upload', 20 * MB)), { rate: 1, reason: 'size:large' });
+    });
+
+    it('leaves smaller uploads to their route', () => {
+      assert.equal(getSampleRate(policy, request('POST', '/api/upload', 200 * 1024)).rate, 0.5);
+    });
+
+    it('reads the bucket from media.size_bucket, file.size_bytes or media.size_bytes', () => {
+      assert.equal(getSampleRate(policy, { name: 'x', attributes: { 'media.size_bucket': 'large' } }).reason, 'size:large');
+      assert.equal(getSampleRate(policy, { name: 'x', attributes: { 'file.size_bytes': 20 * MB } }).reason, 'size:large');
+      assert.equal(getSampleRate(policy, processing(20 * MB, 1, 40)).reason, 'size:large');
+    });
+
+    it('never lowers the rate', () => {
+      const lowered = samplingPolicySchema.parse({ defaultRate: 0.5, profilesRate: 0, sizeBuckets: { small: 0 } });
+      assert.deepEqual(getSampleRate(lowered, request('POST', '/api/upload', 1024)), { rate: 0.5, reason: 'default' });
+    });
+  });
+
+  describe('always-sample rules', () => {
+    it('keeps processing retries', () => {
+      assert.deepEqual(getSampleRate(policy, processing(2 * MB, 2, 40)), { rate: 1, reason: 'always:retry' });
+    });
+
+    it('keeps jobs that waited at least slowQueueMs', () => {
+      assert.deepEqual(getSampleRate(policy, processing(2 * MB, 1, 10_000)), { rate: 1, reason: 'always:slow_queue' });
+      assert.deepEqual(getSampleRate(policy, processing(2 * MB, 1, 9_999)), { rate: 0.1, reason: 'default' });
+    });
+
+    it('overrides a caller that dropped the trace', () => {
+      const input = { ...processing(2 * MB, 2, 40), parentSampled: false, parentSampleRate: 0 };
+      assert.deepEqual(getSampleRate(policy, input), { rate: 1, reason: 'always:retry' });
+    });
+
+    it('can turn off retries', () => {
+      const noRetries = samplingPolicySchema.parse({ defaultRate: 0, profilesRate: 0, alwaysSample: { retries: false } });
+      assert.deepEqual(getSampleRate(noRetries, processing(2 * MB, 2, 40)), { rate: 0, reason: 'default' });
+    });
+  });
+});